@@ -0,0 +1,348 @@
+import crypto from "node:crypto";
+import express from "express";
+import type { NextFunction, Request, Response } from "express";
+import type pg from "pg";
+import type { AppConfig } from "./config";
+import type { ConversionTarget, SubmissionRow, TypeformJobStatus } from "./db";
+import {
+  completeTypeformJob,
+  createConversionExport,
+  failTypeformJob,
+  getAttributionReport,
+  getConversionExport,
+  getSubmissionById,
+  listConversionExports,
+  listSubmissionReplays,
+  listSubmissions,
+  listSyncSagas,
+  listTypeformJobs,
+  recordSubmissionReplay,
+  requeueTypeformJob,
+  startInlineTypeformJob
+} from "./db";
+import type { ConversionsDocument } from "./conversions";
+import { renderGoogleAdsCsv, renderYandexCsv } from "./conversions";
+import type { SyncResult } from "./sync";
+import type { TypeformWebhookPayload } from "./typeform";
+import { holdTypeformJobLock, logLockLost } from "./worker";
+
+const JOB_STATUSES: TypeformJobStatus[] = ["pending", "processing", "done", "dead", "ignored"];
+const MAX_BATCH_REPLAY = 50;
+const MAX_REPORT_RANGE_DAYS = 366;
+// URL segment to target; the segment is also the file name prefix.
+const EXPORT_TARGETS: Record<string, ConversionTarget> = { "google-ads": "google_ads", yandex: "yandex" };
+
+class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/** Name of the `name:key` entry whose key is the request's bearer token. */
+export function findApiKeyName(apiKeys: Array<{ name: string; key: string }>, header: string | undefined): string | undefined {
+  if (!header?.startsWith("Bearer ")) return undefined;
+  const got = Buffer.from(header.slice("Bearer ".length).trim());
+  for (const { name, key } of apiKeys) {
+    const expected = Buffer.from(key);
+    if (expected.length === got.length && crypto.timingSafeEqual(expected, got)) return name;
+  }
+  return undefined;
+}
+
+export function requireAdmin(apiKeys: AppConfig["admin"]["apiKeys"]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const name = findApiKeyName(apiKeys, req.header("authorization"));
+    if (!name) return res.status(401).json({ ok: false, error: "Unauthorized" });
+    res.locals.adminName = name;
+    next();
+  };
+}
+
+function queryString(req: Request, name: string): string | undefined {
+  const v = req.query[name];
+  return typeof v === "string" && v.trim().length ? v.trim() : undefined;
+}
+
+function queryDate(req: Request, name: string): Date | undefined {
+  const v = queryString(req, name);
+  if (!v) return undefined;
+  const d = new Date(v);
+  if (Number.isNaN(d.getTime())) throw new HttpError(400, `Invalid date in ${name}`);
+  return d;
+}
+
+function queryBool(req: Request, name: string): boolean | undefined {
+  const v = queryString(req, name);
+  if (v === undefined) return undefined;
+  if (v === "true") return true;
+  if (v === "false") return false;
+  throw new HttpError(400, `Invalid boolean in ${name}`);
+}
+
+function queryStatus(req: Request): TypeformJobStatus | undefined {
+  const v = queryString(req, "status");
+  if (v === undefined) return undefined;
+  if (!JOB_STATUSES.includes(v as TypeformJobStatus)) throw new HttpError(400, `status must be one of ${JOB_STATUSES.join(", ")}`);
+  return v as TypeformJobStatus;
+}
+
+function queryPage(req: Request): { limit: number; offset: number } {
+  const limit = Number.parseInt(queryString(req, "limit") ?? "50", 10);
+  const offset = Number.parseInt(queryString(req, "offset") ?? "0", 10);
+  if (!Number.isFinite(limit) || limit < 1 || limit > 500) throw new HttpError(400, "limit must be between 1 and 500");
+  if (!Number.isFinite(offset) || offset < 0) throw new HttpError(400, "offset must be >= 0");
+  return { limit, offset };
+}
+
+function paramId(req: Request): string {
+  const id = req.params.id;
+  if (!/^\d+$/.test(id)) throw new HttpError(400, "Invalid id");
+  return id;
+}
+
+function asyncRoute(fn: (req: Request, res: Response) => Promise<unknown>) {
+  return (req: Request, res: Response) => {
+    fn(req, res).catch((e) => {
+      const status = e instanceof HttpError ? e.status : 500;
+      const message = e instanceof Error ? e.message : "Unknown error";
+      if (status >= 500) console.error(JSON.stringify({ msg: "admin_api_error", path: req.path, error: message }));
+      res.status(status).json({ ok: false, error: message });
+    });
+  };
+}
+
+export function createAdminRouter(params: {
+  pool: pg.Pool;
+  config: AppConfig["admin"];
+  /** `WORKER_STALE_LOCK_MS`: inline replays keep their job lock alive like the worker does. */
+  staleLockMs: number;
+  conversions: ConversionsDocument;
+  sync: (
+    payload: TypeformWebhookPayload,
+    options: { jobId?: string; skipEventDedupe?: boolean; sourceKey?: string }
+  ) => Promise<SyncResult>;
+}): express.Router {
+  const { pool, config, staleLockMs, conversions, sync } = params;
+  const router = express.Router();
+  router.use(requireAdmin(config.apiKeys));
+  router.use(express.json({ limit: "100kb" }));
+
+  async function replaySubmission(submission: SubmissionRow, triggeredBy: string) {
+    if (!submission.last_payload) {
+      return recordSubmissionReplay({
+        pool,
+        submissionId: submission.id,
+        triggeredBy,
+        status: "skipped",
+        error: "Submission has no stored payload"
+      });
+    }
+
+    const job = await startInlineTypeformJob({ pool, submission, triggeredBy });
+    if (!job) {
+      return recordSubmissionReplay({
+        pool,
+        submissionId: submission.id,
+        triggeredBy,
+        status: "skipped",
+        error: "Submission is being processed by the worker"
+      });
+    }
+
+    const stopHeartbeat = holdTypeformJobLock({ pool, job, lockedBy: triggeredBy, staleLockMs });
+    try {
+      const { leadId, contactId } = await sync(submission.last_payload as TypeformWebhookPayload, {
+        jobId: job.id,
+        skipEventDedupe: true,
+        sourceKey: submission.source_key ?? undefined
+      });
+      stopHeartbeat();
+      if (!(await completeTypeformJob(pool, job.id, triggeredBy))) logLockLost(job, triggeredBy);
+      console.log(
+        JSON.stringify({
+          msg: "admin_replay_succeeded",
+          submission_id: submission.id,
+          token: submission.response_token,
+          triggered_by: triggeredBy,
+          amo_lead_id: leadId
+        })
+      );
+      return recordSubmissionReplay({
+        pool,
+        submissionId: submission.id,
+        jobId: job.id,
+        triggeredBy,
+        status: "succeeded",
+        amoLeadId: leadId,
+        amoContactId: contactId
+      });
+    } catch (e) {
+      stopHeartbeat();
+      const message = e instanceof Error ? e.message : "Unknown error";
+      if (!(await failTypeformJob({ pool, jobId: job.id, lockedBy: triggeredBy, error: message }))) logLockLost(job, triggeredBy);
+      console.error(
+        JSON.stringify({
+          msg: "admin_replay_failed",
+          submission_id: submission.id,
+          token: submission.response_token,
+          triggered_by: triggeredBy,
+          error: message
+        })
+      );
+      return recordSubmissionReplay({ pool, submissionId: submission.id, jobId: job.id, triggeredBy, status: "failed", error: message });
+    }
+  }
+
+  router.get(
+    "/submissions",
+    asyncRoute(async (req, res) => {
+      const rows = await listSubmissions({
+        pool,
+        formId: queryString(req, "form_id"),
+        channel: queryString(req, "channel"),
+        status: queryStatus(req),
+        from: queryDate(req, "from"),
+        to: queryDate(req, "to"),
+        hasLead: queryBool(req, "has_lead"),
+        ...queryPage(req)
+      });
+      res.json({ ok: true, submissions: rows });
+    })
+  );
+
+  router.get(
+    "/submissions/:id",
+    asyncRoute(async (req, res) => {
+      const submission = await getSubmissionById(pool, paramId(req));
+      if (!submission) throw new HttpError(404, "Submission not found");
+      const [jobs, replays, syncSteps] = await Promise.all([
+        listTypeformJobs({ pool, responseToken: submission.response_token, limit: 50, offset: 0 }),
+        listSubmissionReplays(pool, submission.id),
+        listSyncSagas(pool, submission.response_token)
+      ]);
+      res.json({ ok: true, submission, jobs, replays, syncSteps });
+    })
+  );
+
+  router.post(
+    "/submissions/:id/replay",
+    asyncRoute(async (req, res) => {
+      const submission = await getSubmissionById(pool, paramId(req));
+      if (!submission) throw new HttpError(404, "Submission not found");
+      const replay = await replaySubmission(submission, res.locals.adminName as string);
+      res.status(replay.status === "failed" ? 502 : 200).json({ ok: replay.status === "succeeded", replay });
+    })
+  );
+
+  router.post(
+    "/submissions/replay",
+    asyncRoute(async (req, res) => {
+      const ids = (req.body as { ids?: unknown })?.ids;
+      if (!Array.isArray(ids) || !ids.length || !ids.every((id) => typeof id === "string" || typeof id === "number")) {
+        throw new HttpError(400, "Body must be { ids: [...] }");
+      }
+      if (ids.length > MAX_BATCH_REPLAY) throw new HttpError(400, `At most ${MAX_BATCH_REPLAY} ids per batch`);
+
+      const results: Array<{ id: string; replay?: Awaited<ReturnType<typeof replaySubmission>>; error?: string }> = [];
+      for (const rawId of ids) {
+        const id = String(rawId);
+        const submission = /^\d+$/.test(id) ? await getSubmissionById(pool, id) : undefined;
+        if (!submission) {
+          results.push({ id, error: "Submission not found" });
+          continue;
+        }
+        results.push({ id, replay: await replaySubmission(submission, res.locals.adminName as string) });
+      }
+      res.json({ ok: results.every((r) => r.replay?.status === "succeeded"), results });
+    })
+  );
+
+  router.get(
+    "/reports/attribution",
+    asyncRoute(async (req, res) => {
+      const from = queryDate(req, "from");
+      const to = queryDate(req, "to");
+      if (!from || !to) throw new HttpError(400, "from and to are required");
+      if (to <= from) throw new HttpError(400, "to must be after from");
+      if (to.getTime() - from.getTime() > MAX_REPORT_RANGE_DAYS * 86_400_000) {
+        throw new HttpError(400, `Range must be at most ${MAX_REPORT_RANGE_DAYS} days`);
+      }
+      const model = queryString(req, "model") ?? "last";
+      if (model !== "first" && model !== "last") throw new HttpError(400, "model must be first or last");
+      const rows = await getAttributionReport({ pool, from, to, model });
+      res.json({ ok: true, from, to, model, rows });
+    })
+  );
+
+  function sendExportFile(res: Response, file: { id: string; target: ConversionTarget; content: string }) {
+    const prefix = Object.keys(EXPORT_TARGETS).find((k) => EXPORT_TARGETS[k] === file.target);
+    res.setHeader("content-type", "text/csv; charset=utf-8");
+    res.setHeader("content-disposition", `attachment; filename="${prefix}-conversions-${file.id}.csv"`);
+    res.send(file.content);
+  }
+
+  // Each call claims the conversions not yet exported to the target; 204 when there are none.
+  router.post(
+    "/conversions/exports/:target",
+    asyncRoute(async (req, res) => {
+      const target = EXPORT_TARGETS[req.params.target];
+      if (!target) throw new HttpError(404, `Unknown export target, expected one of ${Object.keys(EXPORT_TARGETS).join(", ")}`);
+      const file = await createConversionExport({
+        pool,
+        target,
+        createdBy: res.locals.adminName as string,
+        render: (rows) => (target === "google_ads" ? renderGoogleAdsCsv(rows, conversions.timeZone) : renderYandexCsv(rows))
+      });
+      if (!file) return res.status(204).end();
+      console.log(
+        JSON.stringify({ msg: "conversion_export_created", export_id: file.id, target, rows: file.row_count, created_by: file.created_by })
+      );
+      sendExportFile(res, file);
+    })
+  );
+
+  router.get(
+    "/conversions/exports",
+    asyncRoute(async (req, res) => {
+      const raw = queryString(req, "target");
+      const target = raw ? EXPORT_TARGETS[raw] : undefined;
+      if (raw && !target) throw new HttpError(400, `target must be one of ${Object.keys(EXPORT_TARGETS).join(", ")}`);
+      const exports = await listConversionExports({ pool, target, ...queryPage(req) });
+      res.json({ ok: true, exports });
+    })
+  );
+
+  // Downloads an earlier export again; it does not send anything new.
+  router.get(
+    "/conversions/exports/:id",
+    asyncRoute(async (req, res) => {
+      const file = await getConversionExport(pool, paramId(req));
+      if (!file) throw new HttpError(404, "Export not found");
+      sendExportFile(res, file);
+    })
+  );
+
+  router.get(
+    "/jobs",
+    asyncRoute(async (req, res) => {
+      const jobs = await listTypeformJobs({ pool, status: queryStatus(req), ...queryPage(req) });
+      res.json({ ok: true, jobs });
+    })
+  );
+
+  router.post(
+    "/jobs/:id/requeue",
+    asyncRoute(async (req, res) => {
+      const jobId = paramId(req);
+      const ok = await requeueTypeformJob({ pool, jobId, triggeredBy: res.locals.adminName as string });
+      if (!ok) throw new HttpError(409, "Job not found or not dead-lettered");
+      console.log(JSON.stringify({ msg: "admin_job_requeued", job_id: jobId, triggered_by: res.locals.adminName }));
+      res.json({ ok: true });
+    })
+  );
+
+  return router;
+}
@@ -0,0 +1,302 @@
+import type pg from "pg";
+import type { AmoClient, AmoCustomField } from "./amocrm";
+import { CONTACT_ENUM, CONTACT_FIELD } from "./amocrm";
+import type { AppConfig } from "./config";
+import { getLatestAmoSchemaSnapshot, saveAmoSchemaSnapshot } from "./db";
+import type { EnumResolution, FormMapping, MappingDocument, MappingTransform } from "./mappingConfig";
+import { normalizeLabel } from "./enumResolver";
+import type { RoutingDocument } from "./routing";
+import { routingFieldIds } from "./routing";
+
+type Entity = "leads" | "contacts";
+
+export type AmoSchema = Record<Entity, AmoCustomField[]>;
+
+type FieldKind = "text" | "number" | "date" | "enum" | "multiselect" | "checkbox" | "multitext";
+
+/** One place in the configuration that writes to an amoCRM custom field. */
+export type FieldUsage = {
+  entity: Entity;
+  fieldId: number;
+  kind: FieldKind;
+  enumIds: number[];
+  /** Option labels referenced by enum aliases and fallbacks. */
+  enumLabels?: string[];
+  /** Path in the mapping/routing document, for error messages. */
+  where: string;
+};
+
+export type SchemaReport = {
+  /** "live" when fetched from amoCRM now, "cache" when amoCRM was unreachable. */
+  source: "live" | "cache" | "none";
+  schema?: AmoSchema;
+  changes: string[];
+  issues: string[];
+  error?: string;
+};
+
+// amoCRM field types that accept what each kind of mapping writes.
+const COMPATIBLE_TYPES: Record<FieldKind, string[]> = {
+  text: ["text", "textarea", "url", "tracking_data", "streetaddress"],
+  number: ["numeric", "text", "textarea"],
+  date: ["date", "date_time", "birthday"],
+  enum: ["select", "radiobutton", "multiselect"],
+  multiselect: ["multiselect"],
+  checkbox: ["checkbox"],
+  multitext: ["multitext"]
+};
+
+function transformKind(transform: MappingTransform): FieldKind {
+  switch (transform.type) {
+    case "text":
+    case "concat":
+      return "text";
+    case "date":
+      return "date";
+    case "enum":
+      return "enum";
+    case "multiselect":
+      return "multiselect";
+    case "checkbox":
+      return "checkbox";
+  }
+}
+
+function enumTargets(resolution: EnumResolution): { enumIds: number[]; enumLabels: string[] } {
+  const targets = [...Object.values(resolution.aliases ?? {}), ...(resolution.fallback !== undefined ? [resolution.fallback] : [])];
+  return {
+    enumIds: [...(resolution.options ?? []).map((o) => o.enumId), ...targets.filter((t): t is number => typeof t === "number")],
+    enumLabels: targets.filter((t): t is string => typeof t === "string")
+  };
+}
+
+function formUsages(path: string, form: FormMapping): FieldUsage[] {
+  const out: FieldUsage[] = form.rules.map((rule, i) => ({
+    entity: rule.target.entity === "lead" ? "leads" : "contacts",
+    fieldId: rule.target.fieldId,
+    kind: transformKind(rule.transform),
+    ...(rule.transform.type === "enum" || rule.transform.type === "multiselect" ? enumTargets(rule.transform) : { enumIds: [] }),
+    where: `${path}.rules[${i}]`
+  }));
+
+  const children = form.children;
+  if (!children) return out;
+  children.slots.forEach((slot, i) => {
+    const where = `${path}.children.slots[${i}]`;
+    out.push({ entity: "leads", fieldId: slot.nameFieldId, kind: "text", enumIds: [], where: `${where}.nameFieldId` });
+    out.push({ entity: "leads", fieldId: slot.dobFieldId, kind: "date", enumIds: [], where: `${where}.dobFieldId` });
+    out.push({
+      entity: "leads",
+      fieldId: slot.programFieldId,
+      kind: "enum",
+      enumIds: Object.values(slot.programEnumIds),
+      where: `${where}.programFieldId`
+    });
+  });
+  if (children.countFieldId) {
+    out.push({ entity: "leads", fieldId: children.countFieldId, kind: "number", enumIds: [], where: `${path}.children.countFieldId` });
+  }
+  return out;
+}
+
+/**
+ * Every custom field the service writes, from the mapping and routing documents plus the
+ * built-in contact fields and the attribution lead fields.
+ */
+export function collectFieldUsages(params: {
+  mapping: MappingDocument;
+  routing: RoutingDocument;
+  attribution?: AppConfig["attribution"];
+}): FieldUsage[] {
+  const { mapping, routing, attribution } = params;
+  const usages: FieldUsage[] = [
+    {
+      entity: "contacts",
+      fieldId: CONTACT_FIELD.phone,
+      kind: "multitext",
+      enumIds: [CONTACT_ENUM.phoneWork, CONTACT_ENUM.phoneMobile],
+      where: "contact phone"
+    },
+    { entity: "contacts", fieldId: CONTACT_FIELD.email, kind: "multitext", enumIds: [CONTACT_ENUM.emailWork], where: "contact email" },
+    { entity: "contacts", fieldId: CONTACT_FIELD.telegramUsername, kind: "text", enumIds: [], where: "contact Telegram username" },
+    { entity: "contacts", fieldId: CONTACT_FIELD.telegramId, kind: "text", enumIds: [], where: "contact Telegram id" },
+    { entity: "contacts", fieldId: CONTACT_FIELD.language, kind: "text", enumIds: [], where: "contact language" }
+  ];
+
+  if (attribution?.firstTouchFieldId) {
+    usages.push({ entity: "leads", fieldId: attribution.firstTouchFieldId, kind: "text", enumIds: [], where: "attribution first touch" });
+  }
+  if (attribution?.lastTouchFieldId) {
+    usages.push({ entity: "leads", fieldId: attribution.lastTouchFieldId, kind: "text", enumIds: [], where: "attribution last touch" });
+  }
+
+  usages.push(...formUsages("mapping.default", mapping.default));
+  for (const [formId, form] of Object.entries(mapping.forms)) usages.push(...formUsages(`mapping.forms.${formId}`, form));
+
+  const fields = routingFieldIds(routing);
+  const campuses = Object.entries(routing.campuses);
+  const leadEnumIds = campuses.map(([, c]) => c.leadEnumId).filter((id): id is number => !!id);
+  const contactEnumIds = campuses.map(([, c]) => c.contactEnumId).filter((id): id is number => !!id);
+  if (fields.leadCampus && leadEnumIds.length) {
+    usages.push({ entity: "leads", fieldId: fields.leadCampus, kind: "enum", enumIds: leadEnumIds, where: "routing.fields.leadCampus" });
+  }
+  if (fields.contactCampus && contactEnumIds.length) {
+    usages.push({
+      entity: "contacts",
+      fieldId: fields.contactCampus,
+      kind: "enum",
+      enumIds: contactEnumIds,
+      where: "routing.fields.contactCampus"
+    });
+  }
+  const hasManagerNames = Object.values(routing.teams).some((t) => t.members.some((m) => m.name));
+  if (fields.contactManager && hasManagerNames) {
+    usages.push({ entity: "contacts", fieldId: fields.contactManager, kind: "text", enumIds: [], where: "routing.fields.contactManager" });
+  }
+  return usages;
+}
+
+export function validateFieldUsages(usages: FieldUsage[], schema: AmoSchema): string[] {
+  const issues: string[] = [];
+  const byId = {
+    leads: new Map(schema.leads.map((f) => [f.id, f])),
+    contacts: new Map(schema.contacts.map((f) => [f.id, f]))
+  };
+  for (const u of usages) {
+    const field = byId[u.entity].get(u.fieldId);
+    if (!field) {
+      issues.push(`${u.where}: ${u.entity} field ${u.fieldId} does not exist`);
+      continue;
+    }
+    const label = `${u.entity} field ${u.fieldId} (${JSON.stringify(field.name)})`;
+    const compatible = COMPATIBLE_TYPES[u.kind];
+    if (!compatible.includes(field.type)) {
+      issues.push(`${u.where}: ${label} is ${field.type}, expected ${compatible.join(" or ")}`);
+      continue;
+    }
+    const enumIds = new Set((field.enums ?? []).map((e) => e.id));
+    for (const id of new Set(u.enumIds)) {
+      if (!enumIds.has(id)) issues.push(`${u.where}: enum ${id} is not an option of ${label}`);
+    }
+    const enumLabels = new Set((field.enums ?? []).map((e) => normalizeLabel(e.value)));
+    for (const l of new Set(u.enumLabels ?? [])) {
+      if (!enumLabels.has(normalizeLabel(l))) issues.push(`${u.where}: ${JSON.stringify(l)} is not an option label of ${label}`);
+    }
+  }
+  return issues;
+}
+
+function validateMappings(params: {
+  schema: AmoSchema;
+  mapping: MappingDocument;
+  sourceMappings?: Record<string, MappingDocument>;
+  routing: RoutingDocument;
+  attribution?: AppConfig["attribution"];
+}): string[] {
+  const { schema, mapping, sourceMappings, routing, attribution } = params;
+  const issues = validateFieldUsages(collectFieldUsages({ mapping, routing, attribution }), schema);
+  for (const [key, sourceMapping] of Object.entries(sourceMappings ?? {})) {
+    // Built-in contact fields and routing are shared, so only the mapping part is source-specific.
+    const usages = collectFieldUsages({ mapping: sourceMapping, routing }).filter((u) => u.where.startsWith("mapping."));
+    issues.push(...validateFieldUsages(usages, schema).map((issue) => `source ${key}: ${issue}`));
+  }
+  return issues;
+}
+
+function diffEntity(entity: Entity, before: AmoCustomField[], after: AmoCustomField[]): string[] {
+  const changes: string[] = [];
+  const prev = new Map(before.map((f) => [f.id, f]));
+  const next = new Map(after.map((f) => [f.id, f]));
+
+  for (const [id, f] of prev) {
+    if (!next.has(id)) changes.push(`${entity} field ${id} (${JSON.stringify(f.name)}) removed`);
+  }
+  for (const [id, f] of next) {
+    const old = prev.get(id);
+    if (!old) {
+      changes.push(`${entity} field ${id} (${JSON.stringify(f.name)}) added, type ${f.type}`);
+      continue;
+    }
+    if (old.name !== f.name) changes.push(`${entity} field ${id} renamed ${JSON.stringify(old.name)} -> ${JSON.stringify(f.name)}`);
+    if (old.type !== f.type) changes.push(`${entity} field ${id} type changed ${old.type} -> ${f.type}`);
+
+    const oldEnums = new Map((old.enums ?? []).map((e) => [e.id, e.value]));
+    const newEnums = new Map((f.enums ?? []).map((e) => [e.id, e.value]));
+    for (const [enumId, value] of oldEnums) {
+      if (!newEnums.has(enumId)) changes.push(`${entity} field ${id} enum ${enumId} (${JSON.stringify(value)}) removed`);
+    }
+    for (const [enumId, value] of newEnums) {
+      const oldValue = oldEnums.get(enumId);
+      if (oldValue === undefined) changes.push(`${entity} field ${id} enum ${enumId} (${JSON.stringify(value)}) added`);
+      else if (oldValue !== value) {
+        changes.push(`${entity} field ${id} enum ${enumId} renamed ${JSON.stringify(oldValue)} -> ${JSON.stringify(value)}`);
+      }
+    }
+  }
+  return changes;
+}
+
+export function diffSchemas(before: AmoSchema, after: AmoSchema): string[] {
+  return [...diffEntity("leads", before.leads, after.leads), ...diffEntity("contacts", before.contacts, after.contacts)];
+}
+
+/**
+ * Fetches lead and contact custom fields from amoCRM, caches them in Postgres and checks
+ * the configured mappings against them. Changes are relative to the previous snapshot.
+ */
+export async function syncAmoSchema(params: {
+  pool: pg.Pool;
+  amo: AmoClient;
+  mapping: MappingDocument;
+  /** Per-source mapping documents, checked too and reported with the source key. */
+  sourceMappings?: Record<string, MappingDocument>;
+  routing: RoutingDocument;
+  attribution?: AppConfig["attribution"];
+}): Promise<SchemaReport> {
+  const { pool, amo, mapping, sourceMappings, routing, attribution } = params;
+  const [leads, contacts, previous] = await Promise.all([
+    amo.listCustomFields({ pool, entity: "leads" }),
+    amo.listCustomFields({ pool, entity: "contacts" }),
+    getLatestAmoSchemaSnapshot(pool)
+  ]);
+  const schema: AmoSchema = { leads, contacts };
+  const changes = previous ? diffSchemas({ leads: previous.leads, contacts: previous.contacts } as AmoSchema, schema) : [];
+  await saveAmoSchemaSnapshot({ pool, previousId: previous?.id, leads, contacts, changes });
+  return {
+    source: "live",
+    schema,
+    changes,
+    issues: validateMappings({ schema, mapping, sourceMappings, routing, attribution })
+  };
+}
+
+export async function loadCachedAmoSchema(pool: pg.Pool): Promise<AmoSchema | undefined> {
+  const cached = await getLatestAmoSchemaSnapshot(pool);
+  return cached ? ({ leads: cached.leads, contacts: cached.contacts } as AmoSchema) : undefined;
+}
+
+/** Like `syncAmoSchema`, but falls back to the cached snapshot when amoCRM cannot be reached. */
+export async function checkAmoSchema(params: {
+  pool: pg.Pool;
+  amo: AmoClient;
+  mapping: MappingDocument;
+  sourceMappings?: Record<string, MappingDocument>;
+  routing: RoutingDocument;
+  attribution?: AppConfig["attribution"];
+}): Promise<SchemaReport> {
+  const { pool, mapping, sourceMappings, routing, attribution } = params;
+  try {
+    return await syncAmoSchema(params);
+  } catch (e) {
+    const error = e instanceof Error ? e.message : "Unknown error";
+    const schema = await loadCachedAmoSchema(pool);
+    if (!schema) return { source: "none", changes: [], issues: [], error };
+    return {
+      source: "cache",
+      schema,
+      changes: [],
+      issues: validateMappings({ schema, mapping, sourceMappings, routing, attribution }),
+      error
+    };
+  }
+}
@@ -1,5 +1,9 @@
-import { kvGet, kvSet } from "./db";
+import { kvDelete, kvGet, kvSet, withAdvisoryLock } from "./db";
 import type pg from "pg";
+import type { PhoneType } from "./phone";
+import { toE164 } from "./phone";
+import { sameTelegramUsername } from "./contactExtras";
+import { createTokenBucket, fetchWithTimeout, retryDelayMs, sleep } from "./http";
 
 type AmoConfig = {
   baseUrl: string;
@@ -10,99 +14,445 @@ type AmoConfig = {
   refreshToken?: string;
   pipelineId: number;
   initialStatusId?: number;
+  phoneDefaultCountryCode: string;
+  http: {
+    requestsPerSecond: number;
+    timeoutMs: number;
+    maxRetries: number;
+  };
+  openLeadReuse: {
+    enabled: boolean;
+    windowDays: number;
+    pipelineIds: number[];
+  };
 };
 
-type AmoClient = {
-  createOrUpdateByTypeform: (params: {
-    pool: pg.Pool;
-    existingLeadId?: number;
-    existingContactId?: number;
-    typeformSummary: string;
-    leadCustomFields?: unknown[];
-    contact: { name?: string; email?: string; phone?: string };
-  }) => Promise<{ leadId: number; contactId?: number }>;
+/**
+ * A non-idempotent write (POST) failed in a way that does not tell whether amoCRM applied
+ * it: a timeout, a dropped connection or a 502/503/504. It must not be blindly retried.
+ */
+export class AmoUncertainWriteError extends Error {
+  constructor(
+    message: string,
+    public readonly cause?: unknown
+  ) {
+    super(message);
+  }
+}
+
+export type ContactMatch = {
+  kind: "existing" | "phone_and_email" | "phone" | "email" | "telegram" | "created";
+  reason: string;
+};
+
+/**
+ * `phone` is expected in E.164; `phoneType` picks the MOB or WORK enum of the phone field.
+ * `telegramUsername` is without the "@"; `language` is the label written to "Язык общения".
+ */
+export type ContactInput = {
+  name?: string;
+  email?: string;
+  phone?: string;
+  phoneType?: PhoneType;
+  telegramUsername?: string;
+  telegramId?: string;
+  language?: string;
+};
+
+/** How the lead for a submission was chosen. */
+export type LeadDecision = "existing_submission" | "reused_open_lead" | "created";
+
+/** Applied only when a new lead (and contact) is created. */
+export type LeadAssignment = {
+  responsibleUserId?: number;
+  pipelineId?: number;
+  statusId?: number;
+};
+
+export type SyncStep =
+  | "contact_created"
+  | "lead_created"
+  | "lead_reused"
+  | "linked"
+  | "fields_written"
+  | "note_added"
+  | "task_created";
+
+/** What earlier attempts of the same sync already wrote to amoCRM. */
+export type SyncProgress = {
+  leadId?: number;
+  contactId?: number;
+  contactMatch?: ContactMatch;
+  leadDecision?: LeadDecision;
+  assignee?: { userId: number; name?: string };
+  steps: Partial<Record<SyncStep, string>>;
 };
 
+/**
+ * Persists progress after each amoCRM write, so a retry resumes after the last completed
+ * step instead of creating a second lead or note.
+ */
+export type SyncCheckpoint = {
+  progress: SyncProgress;
+  complete: (steps: SyncStep[], state?: Omit<SyncProgress, "steps">) => Promise<void>;
+};
+
+export type TypeformSyncParams = {
+  pool: pg.Pool;
+  existingLeadId?: number;
+  existingContactId?: number;
+  typeformSummary: string;
+  leadCustomFields?: unknown[];
+  contactCustomFields?: unknown[];
+  contact: ContactInput;
+  assignment?: LeadAssignment;
+  /**
+   * Moves an existing lead to where a new lead with `to` would go, but only while it is still
+   * in `fromStatusId`, so a lead a manager already moved on is left alone.
+   */
+  promote?: { fromStatusId: number; to: LeadAssignment };
+  /**
+   * Task for the lead's responsible user. Always created with a new lead; an existing lead
+   * only gets one when it has no open task, so repeat submissions do not pile them up.
+   */
+  followUpTask?: { text: string; dueAt: Date; taskTypeId: number };
+  /**
+   * Responsible user for a lead this sync creates, overriding `assignment`. Only called when
+   * the lead is (or was, on a resumed sync) created here, never for an existing or reused
+   * lead, so a round-robin turn is not used up by a lead that does not get the manager.
+   */
+  pickAssignee?: () => Promise<{ responsibleUserId: number; contactCustomFields: unknown[] } | undefined>;
+  /** Set on a new lead, or added to an existing one next to the tags managers gave it. */
+  tags?: { always: string[]; new: string[]; repeat: string[] };
+  checkpoint?: SyncCheckpoint;
+};
+
+export type TypeformSyncResult = {
+  leadId: number;
+  contactId?: number;
+  contactMatch?: ContactMatch;
+  leadDecision: LeadDecision;
+};
+
+export type AmoAuthStatus = {
+  oauthConfigured: boolean;
+  connected: boolean;
+  source?: "kv_store" | "env";
+  expiresAt?: string;
+  expired?: boolean;
+  hasRefreshToken: boolean;
+  lastRefreshError?: { at: string; message: string };
+};
+
+export type AmoCustomField = {
+  id: number;
+  name: string;
+  type: string;
+  enums: Array<{ id: number; value: string; sort: number }> | null;
+};
+
+export type AmoClient = {
+  createOrUpdateByTypeform: (params: TypeformSyncParams) => Promise<TypeformSyncResult>;
+  listCustomFields: (params: { pool: pg.Pool; entity: "leads" | "contacts" }) => Promise<AmoCustomField[]>;
+  getAuthorizationUrl: (state: string) => string;
+  exchangeAuthorizationCode: (params: { pool: pg.Pool; code: string; referer?: string }) => Promise<AmoAuthStatus>;
+  getAuthStatus: (pool: pg.Pool) => Promise<AmoAuthStatus>;
+  ensureFreshToken: (pool: pg.Pool) => Promise<void>;
+};
+
+type AmoContact = {
+  id: number;
+  custom_fields_values?: Array<{ field_id: number; values: Array<{ value?: unknown }> }> | null;
+};
+
+type AmoLead = {
+  id: number;
+  pipeline_id: number;
+  status_id: number;
+  responsible_user_id?: number;
+  updated_at: number;
+};
+
+// amoCRM's reserved "won" and "lost" statuses, shared by every pipeline.
+const STATUS_WON = 142;
+const STATUS_LOST = 143;
+
 const KV_ACCESS = "amocrm.access_token";
 const KV_REFRESH = "amocrm.refresh_token";
+const KV_EXPIRES_AT = "amocrm.access_token_expires_at";
+const KV_REFRESH_ERROR = "amocrm.last_refresh_error";
+
+// Refresh this long before `expires_in` runs out, so in-flight requests never carry a dead token.
+const REFRESH_AHEAD_MS = 10 * 60 * 1000;
+const TOKEN_LOCK = "amocrm.token_refresh";
+
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+// amoCRM search is eventually consistent; give a just-created entity a moment to show up.
+const UNCERTAIN_LOOKUP_DELAY_MS = 3000;
+
+/** Built-in contact fields written directly by the client; checked by the schema sync. */
+export const CONTACT_FIELD = {
+  phone: 214683,
+  email: 214685,
+  telegramUsername: 995927,
+  telegramId: 995929,
+  language: 995931
+};
+
+export const CONTACT_ENUM = {
+  phoneWork: 115921,
+  phoneMobile: 115925,
+  emailWork: 115933
+};
+
+function contactFieldStrings(contact: AmoContact, fieldId: number): string[] {
+  const field = contact.custom_fields_values?.find((f) => f.field_id === fieldId);
+  return (field?.values ?? []).map((v) => v.value).filter((v): v is string => typeof v === "string");
+}
+
+function contactName(contact: ContactInput): string {
+  const telegram = contact.telegramUsername ? `@${contact.telegramUsername}` : undefined;
+  return contact.name ?? contact.email ?? contact.phone ?? telegram ?? "Typeform contact";
+}
 
 export function createAmoClient(config: AmoConfig): AmoClient {
+  let refreshInFlight: Promise<void> | undefined;
+  // amoCRM allows 7 requests per second per integration; one bucket per client keeps bursts under it.
+  const bucket = createTokenBucket({ ratePerSecond: config.http.requestsPerSecond, burst: config.http.requestsPerSecond });
+
   async function getAccessToken(pool: pg.Pool): Promise<string> {
-    const fromDb = await kvGet(pool, KV_ACCESS);
+    const [fromDb, expiresAt] = await Promise.all([kvGet(pool, KV_ACCESS), kvGet(pool, KV_EXPIRES_AT)]);
+    if (fromDb && expiresAt && hasOAuthConfig()) {
+      const msLeft = Date.parse(expiresAt) - Date.now();
+      if (msLeft < REFRESH_AHEAD_MS) {
+        try {
+          await refreshTokens(pool, fromDb);
+          return (await kvGet(pool, KV_ACCESS)) ?? fromDb;
+        } catch (e) {
+          // Still usable for a while: keep going and let the next call retry the refresh.
+          if (msLeft <= 0) throw e;
+        }
+      }
+    }
     if (fromDb) return fromDb;
     if (config.accessToken) return config.accessToken;
-    throw new Error("No amoCRM access token. Set AMOCRM_ACCESS_TOKEN or configure refresh flow.");
+    throw new Error("No amoCRM access token. Set AMOCRM_ACCESS_TOKEN or authorize via /oauth/amocrm/start.");
   }
 
-  async function maybeRefresh(pool: pg.Pool): Promise<void> {
-    const hasOAuth = !!(config.clientId && config.clientSecret && config.redirectUri);
-    if (!hasOAuth) return;
-
-    const refreshToken = (await kvGet(pool, KV_REFRESH)) ?? config.refreshToken;
-    if (!refreshToken) return;
+  function hasOAuthConfig(): boolean {
+    return !!(config.clientId && config.clientSecret && config.redirectUri);
+  }
 
+  async function requestTokens(
+    pool: pg.Pool,
+    grant: { grant_type: "refresh_token"; refresh_token: string } | { grant_type: "authorization_code"; code: string }
+  ): Promise<void> {
     const url = new URL("/oauth2/access_token", config.baseUrl);
-    const res = await fetch(url, {
-      method: "POST",
-      headers: { "content-type": "application/json" },
-      body: JSON.stringify({
-        client_id: config.clientId,
-        client_secret: config.clientSecret,
-        grant_type: "refresh_token",
-        refresh_token: refreshToken,
-        redirect_uri: config.redirectUri
-      })
-    });
+    const res = await fetchWithTimeout(
+      url,
+      {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          client_id: config.clientId,
+          client_secret: config.clientSecret,
+          redirect_uri: config.redirectUri,
+          ...grant
+        })
+      },
+      config.http.timeoutMs
+    );
 
     if (!res.ok) {
       const text = await res.text();
-      throw new Error(`amoCRM refresh failed: ${res.status} ${text}`);
+      const action = grant.grant_type === "refresh_token" ? "refresh" : "authorization code exchange";
+      throw new Error(`amoCRM ${action} failed: ${res.status} ${text}`);
     }
 
-    const json = (await res.json()) as { access_token: string; refresh_token: string };
+    const json = (await res.json()) as { access_token: string; refresh_token: string; expires_in?: number };
     await kvSet(pool, KV_ACCESS, json.access_token);
     await kvSet(pool, KV_REFRESH, json.refresh_token);
+    if (json.expires_in) await kvSet(pool, KV_EXPIRES_AT, new Date(Date.now() + json.expires_in * 1000).toISOString());
+    else await kvDelete(pool, KV_EXPIRES_AT);
   }
 
-  async function amoFetch(params: { pool: pg.Pool; input: URL; init?: RequestInit; retryOn401?: boolean }) {
-    const { pool, input, init } = params;
-    const retryOn401 = params.retryOn401 ?? true;
-    const token = await getAccessToken(pool);
-    const res = await fetch(input, {
-      ...init,
-      headers: {
-        ...(init?.headers ?? {}),
-        authorization: `Bearer ${token}`,
-        "content-type": "application/json"
+  /**
+   * Refreshes the token pair at most once across all instances. amoCRM rotates refresh
+   * tokens, so a second concurrent refresh would fail and could store a dead pair: the
+   * advisory lock serializes instances, and `staleAccessToken` lets a waiter see that
+   * someone else already replaced the token it was holding.
+   */
+  function refreshTokens(pool: pg.Pool, staleAccessToken: string): Promise<void> {
+    if (!hasOAuthConfig()) return Promise.resolve();
+    refreshInFlight ??= withAdvisoryLock(pool, TOKEN_LOCK, async () => {
+      const current = await kvGet(pool, KV_ACCESS);
+      if (current && current !== staleAccessToken) return;
+
+      const refreshToken = (await kvGet(pool, KV_REFRESH)) ?? config.refreshToken;
+      if (!refreshToken) return;
+
+      try {
+        await requestTokens(pool, { grant_type: "refresh_token", refresh_token: refreshToken });
+        await kvDelete(pool, KV_REFRESH_ERROR);
+        console.log(JSON.stringify({ msg: "amocrm_token_refreshed" }));
+      } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        await kvSet(pool, KV_REFRESH_ERROR, JSON.stringify({ at: new Date().toISOString(), message }));
+        console.error(JSON.stringify({ msg: "amocrm_token_refresh_failed", error: message }));
+        throw e;
       }
+    }).finally(() => {
+      refreshInFlight = undefined;
     });
+    return refreshInFlight;
+  }
 
-    if (res.status === 401 && retryOn401) {
-      await maybeRefresh(pool);
-      return amoFetch({ pool, input, init, retryOn401: false });
+  function getAuthorizationUrl(state: string): string {
+    if (!config.clientId) throw new Error("AMOCRM_CLIENT_ID is not configured.");
+    const host = new URL(config.baseUrl).hostname.endsWith(".kommo.com") ? "https://www.kommo.com" : "https://www.amocrm.ru";
+    const url = new URL("/oauth", host);
+    url.searchParams.set("client_id", config.clientId);
+    url.searchParams.set("state", state);
+    return url.toString();
+  }
+
+  async function exchangeAuthorizationCode(params: { pool: pg.Pool; code: string; referer?: string }): Promise<AmoAuthStatus> {
+    const { pool, code, referer } = params;
+    if (!hasOAuthConfig()) throw new Error("amoCRM OAuth is not configured (client id, secret and redirect uri).");
+    // amoCRM sends the account domain the user authorized; tokens are only valid for that account.
+    if (referer && new URL(/^https?:\/\//i.test(referer) ? referer : `https://${referer}`).host !== new URL(config.baseUrl).host) {
+      throw new Error(`Authorized account ${referer} does not match AMOCRM_BASE_URL ${config.baseUrl}`);
     }
+    await withAdvisoryLock(pool, TOKEN_LOCK, async () => {
+      await requestTokens(pool, { grant_type: "authorization_code", code });
+      await kvDelete(pool, KV_REFRESH_ERROR);
+    });
+    return getAuthStatus(pool);
+  }
 
-    return res;
+  async function getAuthStatus(pool: pg.Pool): Promise<AmoAuthStatus> {
+    const [fromDb, refresh, expiresAtRaw, refreshError] = await Promise.all([
+      kvGet(pool, KV_ACCESS),
+      kvGet(pool, KV_REFRESH),
+      kvGet(pool, KV_EXPIRES_AT),
+      kvGet(pool, KV_REFRESH_ERROR)
+    ]);
+    const source = fromDb ? "kv_store" : config.accessToken ? "env" : undefined;
+    const expiresAt = fromDb ? expiresAtRaw : undefined;
+    return {
+      oauthConfigured: hasOAuthConfig(),
+      connected: !!source,
+      source,
+      expiresAt,
+      expired: expiresAt ? Date.parse(expiresAt) <= Date.now() : undefined,
+      hasRefreshToken: !!(refresh ?? config.refreshToken),
+      lastRefreshError: refreshError ? (JSON.parse(refreshError) as { at: string; message: string }) : undefined
+    };
   }
 
-  async function createContact(params: { pool: pg.Pool; name?: string; email?: string; phone?: string }): Promise<number> {
-    const { pool, name, email, phone } = params;
-    const url = new URL("/api/v4/contacts", config.baseUrl);
-    const customFieldsValues = buildContactCustomFields({ phone, email });
+  /** Lets an idle instance refresh ahead of expiry instead of waiting for the next request. */
+  async function ensureFreshToken(pool: pg.Pool): Promise<void> {
+    if (!hasOAuthConfig() || !(await kvGet(pool, KV_ACCESS))) return;
+    await getAccessToken(pool);
+  }
 
-    const res = await amoFetch({
-      pool,
-      input: url,
-      init: {
-        method: "POST",
-        body: JSON.stringify([
+  /**
+   * Rate-limited, timed-out amoCRM request. 429 is always retried because amoCRM rejected
+   * the request outright; 502/503/504, timeouts and network errors are only retried for
+   * idempotent requests (everything but POST unless the caller says otherwise) and raise
+   * AmoUncertainWriteError for the rest.
+   */
+  async function amoFetch(params: { pool: pg.Pool; input: URL; init?: RequestInit; idempotent?: boolean }): Promise<Response> {
+    const { pool, input, init } = params;
+    const method = (init?.method ?? "GET").toUpperCase();
+    const idempotent = params.idempotent ?? method !== "POST";
+    const path = input.pathname;
+    let refreshed = false;
+
+    for (let attempt = 0; ; attempt++) {
+      const token = await getAccessToken(pool);
+      await bucket.take();
+
+      let res: Response;
+      try {
+        res = await fetchWithTimeout(
+          input,
           {
-            name: name ?? email ?? phone ?? "Typeform contact",
-            ...(customFieldsValues.length ? { custom_fields_values: customFieldsValues } : {})
-          }
-        ])
+            ...init,
+            headers: {
+              ...(init?.headers ?? {}),
+              authorization: `Bearer ${token}`,
+              "content-type": "application/json"
+            }
+          },
+          config.http.timeoutMs
+        );
+      } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        if (!idempotent) throw new AmoUncertainWriteError(`amoCRM ${method} ${path} outcome unknown: ${message}`, e);
+        if (attempt >= config.http.maxRetries) throw e;
+        const delay = retryDelayMs(attempt, null);
+        console.log(JSON.stringify({ msg: "amocrm_request_retry", method, path, attempt: attempt + 1, error: message, delay_ms: delay }));
+        await sleep(delay);
+        continue;
       }
-    });
+
+      if (res.status === 401 && !refreshed) {
+        refreshed = true;
+        await res.body?.cancel();
+        await refreshTokens(pool, token);
+        continue;
+      }
+
+      if (RETRYABLE_STATUSES.has(res.status)) {
+        if (res.status !== 429 && !idempotent) {
+          throw new AmoUncertainWriteError(`amoCRM ${method} ${path} outcome unknown: ${res.status} ${await res.text()}`);
+        }
+        if (attempt < config.http.maxRetries) {
+          const delay = retryDelayMs(attempt, res.headers.get("retry-after"));
+          await res.body?.cancel();
+          console.log(JSON.stringify({ msg: "amocrm_request_retry", method, path, attempt: attempt + 1, status: res.status, delay_ms: delay }));
+          await sleep(delay);
+          continue;
+        }
+      }
+
+      return res;
+    }
+  }
+
+  async function createContact(
+    params: ContactInput & { pool: pg.Pool; extraFields?: unknown[]; responsibleUserId?: number }
+  ): Promise<number> {
+    const { pool, email, phone, telegramUsername, telegramId, extraFields, responsibleUserId } = params;
+    const url = new URL("/api/v4/contacts", config.baseUrl);
+    const customFieldsValues = [...buildContactCustomFields(params), ...(extraFields ?? [])];
+
+    let res: Response;
+    try {
+      res = await amoFetch({
+        pool,
+        input: url,
+        init: {
+          method: "POST",
+          body: JSON.stringify([
+            {
+              name: contactName(params),
+              ...(responsibleUserId ? { responsible_user_id: responsibleUserId } : {}),
+              ...(customFieldsValues.length ? { custom_fields_values: customFieldsValues } : {})
+            }
+          ])
+        }
+      });
+    } catch (e) {
+      // If the create did go through, the contact is findable by the same keys dedup uses.
+      if (!(e instanceof AmoUncertainWriteError) || (!email && !phone && !telegramUsername && !telegramId)) throw e;
+      await sleep(UNCERTAIN_LOOKUP_DELAY_MS);
+      const found = await findMatchingContact({ pool, email, phone, telegramUsername, telegramId });
+      if (!found) throw e;
+      console.log(JSON.stringify({ msg: "amocrm_uncertain_write_recovered", entity: "contact", id: found.contactId }));
+      return found.contactId;
+    }
     if (!res.ok) throw new Error(`amoCRM contact create failed: ${res.status} ${await res.text()}`);
     const json = (await res.json()) as { _embedded?: { contacts?: Array<{ id: number }> } };
     const contactId = json._embedded?.contacts?.[0]?.id;
@@ -110,11 +460,11 @@ export function createAmoClient(config: AmoConfig): AmoClient {
     return contactId;
   }
 
-  function buildContactCustomFields(params: { phone?: string; email?: string }): Array<{
+  function buildContactCustomFields(params: Omit<ContactInput, "name">): Array<{
     field_id: number;
     values: Array<{ value: string; enum_id?: number }>;
   }> {
-    const { phone, email } = params;
+    const { phone, phoneType, email, telegramUsername, telegramId, language } = params;
     const customFieldsValues: Array<{
       field_id: number;
       values: Array<{ value: string; enum_id?: number }>;
@@ -122,30 +472,28 @@ export function createAmoClient(config: AmoConfig): AmoClient {
 
     if (phone) {
       customFieldsValues.push({
-        field_id: 214683,
-        values: [{ value: phone, enum_id: 115921 }]
+        field_id: CONTACT_FIELD.phone,
+        values: [{ value: phone, enum_id: phoneType === "mobile" ? CONTACT_ENUM.phoneMobile : CONTACT_ENUM.phoneWork }]
       });
     }
 
     if (email) {
       customFieldsValues.push({
-        field_id: 214685,
-        values: [{ value: email, enum_id: 115933 }]
+        field_id: CONTACT_FIELD.email,
+        values: [{ value: email, enum_id: CONTACT_ENUM.emailWork }]
       });
     }
 
+    if (telegramUsername) customFieldsValues.push({ field_id: CONTACT_FIELD.telegramUsername, values: [{ value: `@${telegramUsername}` }] });
+    if (telegramId) customFieldsValues.push({ field_id: CONTACT_FIELD.telegramId, values: [{ value: telegramId }] });
+    if (language) customFieldsValues.push({ field_id: CONTACT_FIELD.language, values: [{ value: language }] });
+
     return customFieldsValues;
   }
 
-  async function updateContact(params: {
-    pool: pg.Pool;
-    contactId: number;
-    name?: string;
-    email?: string;
-    phone?: string;
-  }): Promise<void> {
-    const { pool, contactId, name, email, phone } = params;
-    const customFieldsValues = buildContactCustomFields({ phone, email });
+  async function updateContact(params: ContactInput & { pool: pg.Pool; contactId: number; extraFields?: unknown[] }): Promise<void> {
+    const { pool, contactId, name, extraFields } = params;
+    const customFieldsValues = [...buildContactCustomFields(params), ...(extraFields ?? [])];
     if (!name && !customFieldsValues.length) return;
 
     const url = new URL("/api/v4/contacts", config.baseUrl);
@@ -166,28 +514,169 @@ export function createAmoClient(config: AmoConfig): AmoClient {
     if (!res.ok) throw new Error(`amoCRM contact update failed: ${res.status} ${await res.text()}`);
   }
 
-  async function createLead(params: { pool: pg.Pool; name: string }): Promise<number> {
-    const { pool, name } = params;
+  async function searchContacts(params: { pool: pg.Pool; query: string }): Promise<AmoContact[]> {
+    const { pool, query } = params;
+    const url = new URL("/api/v4/contacts", config.baseUrl);
+    url.searchParams.set("query", query);
+    url.searchParams.set("limit", "50");
+    const res = await amoFetch({ pool, input: url, init: { method: "GET" } });
+    if (res.status === 204) return [];
+    if (!res.ok) throw new Error(`amoCRM contact search failed: ${res.status} ${await res.text()}`);
+    const json = (await res.json()) as { _embedded?: { contacts?: AmoContact[] } };
+    return json._embedded?.contacts ?? [];
+  }
+
+  /**
+   * Looks for an existing contact with the same E.164 phone, email or Telegram username/id.
+   * amoCRM's `query` search is fuzzy, so candidates are re-checked locally. When several
+   * contacts match, the one matching more keys wins, then phone over Telegram over email,
+   * then the lowest id.
+   */
+  async function findMatchingContact(params: {
+    pool: pg.Pool;
+    email?: string;
+    phone?: string;
+    telegramUsername?: string;
+    telegramId?: string;
+  }): Promise<{ contactId: number; match: ContactMatch } | undefined> {
+    const { pool, telegramUsername, telegramId } = params;
+    const phone = toE164(params.phone, config.phoneDefaultCountryCode);
+    const email = params.email?.trim().toLowerCase();
+    if (!phone && !email && !telegramUsername && !telegramId) return undefined;
+
+    const candidates = new Map<number, AmoContact>();
+    const queries = [phone?.slice(-9), email, telegramUsername, telegramId].filter((q): q is string => !!q);
+    for (const query of queries) for (const c of await searchContacts({ pool, query })) candidates.set(c.id, c);
+
+    const scored = Array.from(candidates.values())
+      .map((c) => {
+        const phoneHit = !!phone && contactFieldStrings(c, CONTACT_FIELD.phone).some((v) => toE164(v, config.phoneDefaultCountryCode) === phone);
+        const emailHit = !!email && contactFieldStrings(c, CONTACT_FIELD.email).some((v) => v.trim().toLowerCase() === email);
+        const telegramHit =
+          (!!telegramUsername &&
+            contactFieldStrings(c, CONTACT_FIELD.telegramUsername).some((v) => sameTelegramUsername(v, telegramUsername))) ||
+          (!!telegramId && contactFieldStrings(c, CONTACT_FIELD.telegramId).some((v) => v.trim() === telegramId));
+        const keys = [phoneHit, telegramHit, emailHit].filter(Boolean).length;
+        return { id: c.id, phoneHit, emailHit, telegramHit, score: keys * 8 + (phoneHit ? 4 : 0) + (telegramHit ? 2 : 0) + (emailHit ? 1 : 0) };
+      })
+      .filter((c) => c.score > 0)
+      .sort((a, b) => b.score - a.score || a.id - b.id);
+
+    const best = scored[0];
+    if (!best) return undefined;
+
+    const kind: ContactMatch["kind"] =
+      best.phoneHit && best.emailHit ? "phone_and_email" : best.phoneHit ? "phone" : best.emailHit ? "email" : "telegram";
+    const keys = [
+      best.phoneHit ? `phone ${phone}` : undefined,
+      best.emailHit ? `email ${email}` : undefined,
+      best.telegramHit ? `telegram ${telegramUsername ? `@${telegramUsername}` : telegramId}` : undefined
+    ]
+      .filter(Boolean)
+      .join(" and ");
+    const others = scored.slice(1).map((c) => c.id);
+    const reason = others.length
+      ? `matched contact ${best.id} by ${keys}; picked over ${others.join(", ")} (more keys matched, then phone, Telegram, email, then lowest id)`
+      : `matched contact ${best.id} by ${keys}`;
+    return { contactId: best.id, match: { kind, reason } };
+  }
+
+  async function findRecentLeadByName(params: { pool: pg.Pool; name: string; pipelineId: number; since: Date }): Promise<number | undefined> {
+    const { pool, name, pipelineId, since } = params;
     const url = new URL("/api/v4/leads", config.baseUrl);
-    const res = await amoFetch({
-      pool,
-      input: url,
-      init: {
-        method: "POST",
-        body: JSON.stringify([
-          {
-            name,
-            pipeline_id: config.pipelineId,
-            ...(config.initialStatusId ? { status_id: config.initialStatusId } : {})
-          }
-        ])
+    url.searchParams.set("query", name);
+    url.searchParams.append("filter[pipeline_id][]", String(pipelineId));
+    url.searchParams.set("filter[created_at][from]", String(Math.floor(since.getTime() / 1000)));
+    const res = await amoFetch({ pool, input: url, init: { method: "GET" } });
+    if (res.status === 204) return undefined;
+    if (!res.ok) throw new Error(`amoCRM lead search failed: ${res.status} ${await res.text()}`);
+    const json = (await res.json()) as { _embedded?: { leads?: Array<{ id: number; name: string; created_at: number }> } };
+    const matches = (json._embedded?.leads ?? []).filter((l) => l.name === name);
+    // More than one candidate means we cannot tell which one is ours; let the caller fail.
+    return matches.length === 1 ? matches[0].id : undefined;
+  }
+
+  /** Pipeline and status for a lead; the configured initial status only applies to the default pipeline. */
+  function leadPlacement(assignment: LeadAssignment | undefined): { pipelineId: number; statusId?: number } {
+    return {
+      pipelineId: assignment?.pipelineId ?? config.pipelineId,
+      statusId: assignment?.statusId ?? (assignment?.pipelineId ? undefined : config.initialStatusId)
+    };
+  }
+
+  /**
+   * Creates the lead, its custom fields and the contact in one `/api/v4/leads/complex` call.
+   * `contact` is either an existing contact to link (`id`) or a new one to create inline.
+   */
+  async function createLeadComplex(params: {
+    pool: pg.Pool;
+    name: string;
+    assignment?: LeadAssignment;
+    customFields?: unknown[];
+    tags?: string[];
+    contact?: { id: number } | (ContactInput & { extraFields?: unknown[] });
+  }): Promise<{ leadId: number; contactId?: number }> {
+    const { pool, name, assignment, customFields, tags, contact } = params;
+    const { pipelineId, statusId } = leadPlacement(assignment);
+    const responsible = assignment?.responsibleUserId ? { responsible_user_id: assignment.responsibleUserId } : {};
+
+    let embeddedContact: Record<string, unknown> | undefined;
+    if (contact && "id" in contact) {
+      embeddedContact = { id: contact.id };
+    } else if (contact) {
+      const contactFields = [...buildContactCustomFields(contact), ...(contact.extraFields ?? [])];
+      embeddedContact = {
+        name: contactName(contact),
+        ...responsible,
+        ...(contactFields.length ? { custom_fields_values: contactFields } : {})
+      };
+    }
+
+    const url = new URL("/api/v4/leads/complex", config.baseUrl);
+    const startedAt = new Date(Date.now() - 60_000);
+    let res: Response;
+    try {
+      res = await amoFetch({
+        pool,
+        input: url,
+        init: {
+          method: "POST",
+          body: JSON.stringify([
+            {
+              name,
+              pipeline_id: pipelineId,
+              ...(statusId ? { status_id: statusId } : {}),
+              ...responsible,
+              ...(customFields?.length ? { custom_fields_values: customFields } : {}),
+              ...(embeddedContact || tags?.length
+                ? {
+                    _embedded: {
+                      ...(embeddedContact ? { contacts: [embeddedContact] } : {}),
+                      ...(tags?.length ? { tags: tags.map((tag) => ({ name: tag })) } : {})
+                    }
+                  }
+                : {})
+            }
+          ])
+        }
+      });
+    } catch (e) {
+      if (!(e instanceof AmoUncertainWriteError)) throw e;
+      await sleep(UNCERTAIN_LOOKUP_DELAY_MS);
+      const leadId = await findRecentLeadByName({ pool, name, pipelineId, since: startedAt });
+      if (!leadId) throw e;
+      let contactId = contact && "id" in contact ? contact.id : undefined;
+      if (contact && !("id" in contact) && (contact.email || contact.phone || contact.telegramUsername || contact.telegramId)) {
+        contactId = (await findMatchingContact({ pool, ...contact }))?.contactId;
       }
-    });
-    if (!res.ok) throw new Error(`amoCRM lead create failed: ${res.status} ${await res.text()}`);
-    const json = (await res.json()) as { _embedded?: { leads?: Array<{ id: number }> } };
-    const leadId = json._embedded?.leads?.[0]?.id;
-    if (!leadId) throw new Error("amoCRM did not return created lead id.");
-    return leadId;
+      console.log(JSON.stringify({ msg: "amocrm_uncertain_write_recovered", entity: "lead", id: leadId, contact_id: contactId }));
+      return { leadId, contactId };
+    }
+    if (!res.ok) throw new Error(`amoCRM complex lead create failed: ${res.status} ${await res.text()}`);
+    const json = (await res.json()) as Array<{ id: number; contact_id?: number | null }>;
+    const created = json[0];
+    if (!created?.id) throw new Error("amoCRM did not return created lead id.");
+    return { leadId: created.id, contactId: created.contact_id ?? undefined };
   }
 
   async function linkLeadToContact(params: { pool: pg.Pool; leadId: number; contactId: number }): Promise<void> {
@@ -199,7 +688,9 @@ export function createAmoClient(config: AmoConfig): AmoClient {
       init: {
         method: "POST",
         body: JSON.stringify([{ to_entity_id: contactId, to_entity_type: "contacts" }])
-      }
+      },
+      // Linking an already linked contact is a no-op, so this POST is safe to repeat.
+      idempotent: true
     });
     if (!res.ok) throw new Error(`amoCRM link failed: ${res.status} ${await res.text()}`);
   }
@@ -218,60 +709,273 @@ export function createAmoClient(config: AmoConfig): AmoClient {
     if (!res.ok) throw new Error(`amoCRM note create failed: ${res.status} ${await res.text()}`);
   }
 
-  async function updateLeadCustomFields(params: { pool: pg.Pool; leadId: number; customFields: unknown[] }): Promise<void> {
-    const { pool, leadId, customFields } = params;
-    if (!customFields.length) return;
+  async function updateLead(params: {
+    pool: pg.Pool;
+    leadId: number;
+    customFields?: unknown[];
+    placement?: { pipelineId: number; statusId?: number };
+    /** Added with `tags_to_add`, which keeps the lead's other tags; `_embedded.tags` would replace them. */
+    tagsToAdd?: string[];
+  }): Promise<void> {
+    const { pool, leadId, customFields, placement, tagsToAdd } = params;
+    if (!customFields?.length && !placement && !tagsToAdd?.length) return;
     const url = new URL("/api/v4/leads", config.baseUrl);
     const res = await amoFetch({
       pool,
       input: url,
       init: {
         method: "PATCH",
-        body: JSON.stringify([{ id: leadId, custom_fields_values: customFields }])
+        body: JSON.stringify([
+          {
+            id: leadId,
+            ...(placement ? { pipeline_id: placement.pipelineId } : {}),
+            ...(placement?.statusId ? { status_id: placement.statusId } : {}),
+            ...(customFields?.length ? { custom_fields_values: customFields } : {}),
+            ...(tagsToAdd?.length ? { tags_to_add: tagsToAdd.map((tag) => ({ name: tag })) } : {})
+          }
+        ])
       }
     });
     if (!res.ok) throw new Error(`amoCRM lead update failed: ${res.status} ${await res.text()}`);
   }
 
-  async function createOrUpdateByTypeform(params: {
+  async function getLead(params: { pool: pg.Pool; leadId: number }): Promise<AmoLead> {
+    const { pool, leadId } = params;
+    const url = new URL(`/api/v4/leads/${leadId}`, config.baseUrl);
+    const res = await amoFetch({ pool, input: url, init: { method: "GET" } });
+    if (!res.ok) throw new Error(`amoCRM lead fetch failed: ${res.status} ${await res.text()}`);
+    return (await res.json()) as AmoLead;
+  }
+
+  async function createLeadTask(params: {
     pool: pg.Pool;
-    existingLeadId?: number;
-    existingContactId?: number;
-    typeformSummary: string;
-    leadCustomFields?: unknown[];
-    contact: { name?: string; email?: string; phone?: string };
-  }): Promise<{ leadId: number; contactId?: number }> {
-    const { pool, existingLeadId, existingContactId, typeformSummary, leadCustomFields, contact } = params;
+    leadId: number;
+    text: string;
+    dueAt: Date;
+    taskTypeId: number;
+    responsibleUserId?: number;
+  }): Promise<void> {
+    const { pool, leadId, text, dueAt, taskTypeId, responsibleUserId } = params;
+    const url = new URL("/api/v4/tasks", config.baseUrl);
+    const res = await amoFetch({
+      pool,
+      input: url,
+      init: {
+        method: "POST",
+        body: JSON.stringify([
+          {
+            text,
+            complete_till: Math.floor(dueAt.getTime() / 1000),
+            entity_id: leadId,
+            entity_type: "leads",
+            task_type_id: taskTypeId,
+            ...(responsibleUserId ? { responsible_user_id: responsibleUserId } : {})
+          }
+        ])
+      }
+    });
+    if (!res.ok) throw new Error(`amoCRM task create failed: ${res.status} ${await res.text()}`);
+  }
+
+  async function hasOpenLeadTask(params: { pool: pg.Pool; leadId: number }): Promise<boolean> {
+    const { pool, leadId } = params;
+    const url = new URL("/api/v4/tasks", config.baseUrl);
+    url.searchParams.set("filter[entity_type]", "leads");
+    url.searchParams.append("filter[entity_id][]", String(leadId));
+    url.searchParams.set("filter[is_completed]", "0");
+    url.searchParams.set("limit", "1");
+    const res = await amoFetch({ pool, input: url, init: { method: "GET" } });
+    if (res.status === 204) return false;
+    if (!res.ok) throw new Error(`amoCRM task search failed: ${res.status} ${await res.text()}`);
+    const json = (await res.json()) as { _embedded?: { tasks?: unknown[] } };
+    return !!json._embedded?.tasks?.length;
+  }
+
+  async function findOpenLeadForContact(params: { pool: pg.Pool; contactId: number }): Promise<AmoLead | undefined> {
+    const { pool, contactId } = params;
+    const { windowDays, pipelineIds } = config.openLeadReuse;
+
+    const contactUrl = new URL(`/api/v4/contacts/${contactId}`, config.baseUrl);
+    contactUrl.searchParams.set("with", "leads");
+    const contactRes = await amoFetch({ pool, input: contactUrl, init: { method: "GET" } });
+    if (!contactRes.ok) throw new Error(`amoCRM contact fetch failed: ${contactRes.status} ${await contactRes.text()}`);
+    const contactJson = (await contactRes.json()) as { _embedded?: { leads?: Array<{ id: number }> } };
+    const leadIds = (contactJson._embedded?.leads ?? []).map((l) => l.id);
+    if (!leadIds.length) return undefined;
+
+    const leadsUrl = new URL("/api/v4/leads", config.baseUrl);
+    for (const id of leadIds.slice(0, 50)) leadsUrl.searchParams.append("filter[id][]", String(id));
+    const leadsRes = await amoFetch({ pool, input: leadsUrl, init: { method: "GET" } });
+    if (leadsRes.status === 204) return undefined;
+    if (!leadsRes.ok) throw new Error(`amoCRM lead search failed: ${leadsRes.status} ${await leadsRes.text()}`);
+    const leadsJson = (await leadsRes.json()) as { _embedded?: { leads?: AmoLead[] } };
+
+    const since = Date.now() / 1000 - windowDays * 24 * 60 * 60;
+    return (leadsJson._embedded?.leads ?? [])
+      .filter((l) => pipelineIds.includes(l.pipeline_id))
+      .filter((l) => l.status_id !== STATUS_WON && l.status_id !== STATUS_LOST)
+      .filter((l) => l.updated_at >= since)
+      .sort((a, b) => b.updated_at - a.updated_at || a.id - b.id)[0];
+  }
+
+  async function listCustomFields(params: { pool: pg.Pool; entity: "leads" | "contacts" }): Promise<AmoCustomField[]> {
+    const { pool, entity } = params;
+    const fields: AmoCustomField[] = [];
+    for (let page = 1; ; page += 1) {
+      const url = new URL(`/api/v4/${entity}/custom_fields`, config.baseUrl);
+      url.searchParams.set("page", String(page));
+      url.searchParams.set("limit", "250");
+      const res = await amoFetch({ pool, input: url, init: { method: "GET" } });
+      if (res.status === 204) break;
+      if (!res.ok) throw new Error(`amoCRM ${entity} custom fields fetch failed: ${res.status} ${await res.text()}`);
+      const json = (await res.json()) as { _embedded?: { custom_fields?: AmoCustomField[] }; _links?: { next?: unknown } };
+      for (const f of json._embedded?.custom_fields ?? []) {
+        fields.push({ id: f.id, name: f.name, type: f.type, enums: f.enums ?? null });
+      }
+      if (!json._links?.next) break;
+    }
+    return fields;
+  }
+
+  async function createOrUpdateByTypeform(params: TypeformSyncParams): Promise<TypeformSyncResult> {
+    const {
+      pool,
+      existingLeadId,
+      existingContactId,
+      typeformSummary,
+      leadCustomFields,
+      contactCustomFields,
+      contact,
+      assignment,
+      promote,
+      followUpTask,
+      tags,
+      pickAssignee,
+      checkpoint
+    } = params;
+
+    const progress = checkpoint?.progress ?? { steps: {} };
+    const done = (step: SyncStep) => !!progress.steps[step];
+    const complete = async (steps: SyncStep[], state?: Omit<SyncProgress, "steps">) => {
+      await checkpoint?.complete(steps, state);
+    };
+    const hasContactBits = !!(contact.email || contact.phone || contact.name || contact.telegramUsername || contact.telegramId);
+
+    let contactId = progress.contactId ?? (existingLeadId ? existingContactId : undefined);
+    let contactMatch = progress.contactMatch;
+    if (!contactMatch && contactId) {
+      contactMatch = { kind: "existing", reason: `contact ${contactId} already linked to this submission` };
+    } else if (!contactId && hasContactBits && !progress.leadId) {
+      const found = await findMatchingContact({ pool, ...contact });
+      if (found) {
+        contactId = found.contactId;
+        contactMatch = found.match;
+      }
+    }
+
+    let leadId = progress.leadId ?? existingLeadId;
+    let leadDecision: LeadDecision = progress.leadDecision ?? "existing_submission";
+    if (!leadId && contactId && config.openLeadReuse.enabled) {
+      const openLead = await findOpenLeadForContact({ pool, contactId });
+      if (openLead) {
+        leadId = openLead.id;
+        leadDecision = "reused_open_lead";
+        await complete(["lead_reused"], { leadId, contactId, contactMatch, leadDecision });
+      }
+    }
+
+    const assignee = !leadId || leadDecision === "created" ? await pickAssignee?.() : undefined;
+    const leadAssignment = assignee ? { ...assignment, responsibleUserId: assignee.responsibleUserId } : assignment;
+    const contactFields = [...(contactCustomFields ?? []), ...(assignee?.contactCustomFields ?? [])];
 
-    const leadId =
-      existingLeadId ??
-      (await createLead({
+    if (!leadId) {
+      const newContact = !contactId && hasContactBits ? { ...contact, extraFields: contactFields } : undefined;
+      const created = await createLeadComplex({
         pool,
-        name: `Typeform: ${contact.email ?? contact.phone ?? "submission"}`
-      }));
-
-    const isNewLead = !existingLeadId;
-    const hasContactBits = !!(contact.email || contact.phone || contact.name);
-
-    let contactId: number | undefined;
-    if (isNewLead) {
-      if (hasContactBits) contactId = await createContact({ pool, name: contact.name, email: contact.email, phone: contact.phone });
-    } else {
-      contactId = existingContactId;
-      if (!contactId && hasContactBits) {
-        contactId = await createContact({ pool, name: contact.name, email: contact.email, phone: contact.phone });
+        name: `Typeform: ${contact.email ?? contact.phone ?? "submission"}`,
+        assignment: leadAssignment,
+        customFields: leadCustomFields,
+        tags: tags ? [...tags.always, ...tags.new] : undefined,
+        contact: contactId ? { id: contactId } : newContact
+      });
+      leadId = created.leadId;
+      leadDecision = "created";
+      if (newContact && created.contactId) {
+        contactId = created.contactId;
+        contactMatch = { kind: "created", reason: "no existing contact with this phone, email or Telegram" };
       }
-      if (contactId && hasContactBits) {
-        await updateContact({ pool, contactId, name: contact.name, email: contact.email, phone: contact.phone });
+      const steps: SyncStep[] = newContact && created.contactId ? ["lead_created", "contact_created", "linked"] : ["lead_created"];
+      if (!newContact && contactId) steps.push("linked");
+      await complete(steps, { leadId, contactId, contactMatch, leadDecision });
+    } else if (!contactId && hasContactBits) {
+      contactId = await createContact({ pool, ...contact, extraFields: contactFields });
+      contactMatch = { kind: "created", reason: "no existing contact with this phone, email or Telegram" };
+      await complete(["contact_created"], { contactId, contactMatch });
+    }
+
+    // The remaining writes touch different entities, so they do not need to be ordered.
+    const writes: Array<Promise<void>> = [];
+
+    // A reused open lead is already linked to its contact, and so is the submission's own contact.
+    if (contactId && leadDecision === "existing_submission" && contactId !== existingContactId && !done("linked")) {
+      writes.push(linkLeadToContact({ pool, leadId, contactId }).then(() => complete(["linked"])));
+    }
+
+    if (!done("fields_written")) {
+      const fieldWrites: Array<Promise<void>> = [];
+      // A lead created through the complex call already carries its fields and placement.
+      const placement =
+        promote && leadDecision !== "created" && (await getLead({ pool, leadId })).status_id === promote.fromStatusId
+          ? leadPlacement(promote.to)
+          : undefined;
+      const tagsToAdd = tags ? [...tags.always, ...tags.repeat] : [];
+      if (leadDecision !== "created" && (leadCustomFields?.length || placement || tagsToAdd.length)) {
+        fieldWrites.push(updateLead({ pool, leadId, customFields: leadCustomFields, placement, tagsToAdd }));
       }
+      if (contactId && contactMatch?.kind === "existing" && hasContactBits) {
+        fieldWrites.push(updateContact({ pool, ...contact, contactId, extraFields: contactFields }));
+      } else if (contactId && contactMatch?.kind !== "created") {
+        // Only add mapped fields and the single-value Telegram/language ones: a PATCH of
+        // phone/email would replace the values the contact already has.
+        const { telegramUsername, telegramId, language } = contact;
+        if (contactFields.length || telegramUsername || telegramId || language) {
+          fieldWrites.push(updateContact({ pool, contactId, telegramUsername, telegramId, language, extraFields: contactFields }));
+        }
+      }
+      if (fieldWrites.length) writes.push(Promise.all(fieldWrites).then(() => complete(["fields_written"])));
+    }
+
+    if (followUpTask && !done("task_created")) {
+      const taskLeadId = leadId;
+      const createTask = async () => {
+        let responsibleUserId = leadAssignment?.responsibleUserId;
+        if (leadDecision !== "created") {
+          if (await hasOpenLeadTask({ pool, leadId: taskLeadId })) return;
+          responsibleUserId = (await getLead({ pool, leadId: taskLeadId })).responsible_user_id ?? responsibleUserId;
+        }
+        await createLeadTask({ pool, leadId: taskLeadId, ...followUpTask, responsibleUserId });
+        await complete(["task_created"]);
+      };
+      writes.push(createTask());
+    }
+
+    if (!done("note_added")) {
+      writes.push(addLeadNote({ pool, leadId, text: typeformSummary }).then(() => complete(["note_added"])));
     }
 
-    if (contactId) await linkLeadToContact({ pool, leadId, contactId });
-    if (leadCustomFields?.length) await updateLeadCustomFields({ pool, leadId, customFields: leadCustomFields });
-    await addLeadNote({ pool, leadId, text: typeformSummary });
+    const results = await Promise.allSettled(writes);
+    const failed = results.find((r): r is PromiseRejectedResult => r.status === "rejected");
+    if (failed) throw failed.reason;
 
-    return { leadId, contactId };
+    return { leadId, contactId, contactMatch, leadDecision };
   }
 
-  return { createOrUpdateByTypeform };
+  return {
+    createOrUpdateByTypeform,
+    listCustomFields,
+    getAuthorizationUrl,
+    exchangeAuthorizationCode,
+    getAuthStatus,
+    ensureFreshToken
+  };
 }
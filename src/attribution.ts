@@ -0,0 +1,76 @@
+import type { TypeformWebhookPayload } from "./typeform";
+
+/** Marketing values of one submission, read from its hidden fields. */
+export type Touch = {
+  /** utm_source, or what the click ids and referrer imply when it is missing. */
+  source: string;
+  medium: string;
+  utmSource?: string;
+  utmMedium?: string;
+  utmCampaign?: string;
+  utmContent?: string;
+  utmTerm?: string;
+  gclid?: string;
+  yclid?: string;
+  fbclid?: string;
+  ymUid?: string;
+  referrer?: string;
+};
+
+export type TouchSummary = Pick<Touch, "source" | "medium"> & { utmCampaign?: string; touchedAt: Date };
+
+function hiddenValue(hidden: Record<string, string>, keys: string[]): string | undefined {
+  for (const key of keys) {
+    const v = hidden[key]?.trim();
+    if (v) return v;
+  }
+  return undefined;
+}
+
+function referrerHost(referrer: string): string | undefined {
+  try {
+    return new URL(/^https?:\/\//i.test(referrer) ? referrer : `https://${referrer}`).hostname.replace(/^www\./, "");
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reads utm_*, click ids, `_ym_uid` and the referrer. Source and medium follow the usual
+ * analytics defaults when the UTM tags are missing: auto-tagged Google and Yandex Direct
+ * clicks are cpc, other referrers are referrals and the rest is "(direct) / (none)".
+ */
+export function extractTouch(payload: TypeformWebhookPayload): Touch {
+  const hidden = payload.form_response.hidden ?? {};
+  const touch = {
+    utmSource: hiddenValue(hidden, ["utm_source"]),
+    utmMedium: hiddenValue(hidden, ["utm_medium"]),
+    utmCampaign: hiddenValue(hidden, ["utm_campaign"]),
+    utmContent: hiddenValue(hidden, ["utm_content"]),
+    utmTerm: hiddenValue(hidden, ["utm_term"]),
+    gclid: hiddenValue(hidden, ["gclid"]),
+    yclid: hiddenValue(hidden, ["yclid"]),
+    fbclid: hiddenValue(hidden, ["fbclid"]),
+    ymUid: hiddenValue(hidden, ["_ym_uid", "ym_uid"]),
+    referrer: hiddenValue(hidden, ["referrer", "referer"])
+  };
+  const host = touch.referrer ? referrerHost(touch.referrer) : undefined;
+  const [source, medium] = touch.utmSource
+    ? [touch.utmSource, touch.utmMedium ?? "(none)"]
+    : touch.gclid
+      ? ["google", "cpc"]
+      : touch.yclid
+        ? ["yandex", "cpc"]
+        : touch.fbclid
+          ? ["facebook", "referral"]
+          : host
+            ? [host, "referral"]
+            : ["(direct)", "(none)"];
+  return { source, medium, ...touch };
+}
+
+/** "google / cpc / spring_2025, 2025-03-01": the value written to the first- and last-touch lead fields. */
+export function formatTouch(touch: TouchSummary): string {
+  const parts = [touch.source, touch.medium, ...(touch.utmCampaign ? [touch.utmCampaign] : [])];
+  return `${parts.join(" / ")}, ${touch.touchedAt.toISOString().slice(0, 10)}`;
+}
@@ -1,10 +1,32 @@
 import crypto from "node:crypto";
+import type { WorkingHours } from "./workingHours";
+import type { NoteLocale } from "./mappingConfig";
+import { NOTE_LOCALES } from "./mappingConfig";
+import { parseWorkingTimeRange } from "./workingHours";
+import { isTimeZone } from "./validation";
 
 export type AppConfig = {
   port: number;
   databaseUrl: string;
   typeform: {
     webhookSecret?: string;
+    /** Old secret of `/webhooks/typeform`, still accepted until `expiresAt` while Typeform is switched over. */
+    previousWebhookSecret?: { value: string; expiresAt: Date };
+    /** JSON document with per-source endpoints, see src/sources.ts. */
+    sourcesPath?: string;
+    partialResponses: {
+      /** "lead": lead in the abandoned status; "task": regular lead plus a follow-up task; "ignore": store only. */
+      mode: "lead" | "task" | "ignore";
+      abandonedPipelineId?: number;
+      abandonedStatusId?: number;
+      taskDelayMinutes: number;
+    };
+  };
+  inbound: {
+    /** Signs `/webhooks/leads` bodies like Typeform does: `X-Signature: sha256=<base64 HMAC-SHA256>`. */
+    webhookSecret?: string;
+    /** Alternative to the signature for senders that cannot sign: `Authorization: Bearer <key>`. */
+    apiKeys: Array<{ name: string; key: string }>;
   };
   amocrm: {
     baseUrl: string;
@@ -15,6 +37,63 @@ export type AppConfig = {
     refreshToken?: string;
     pipelineId: number;
     initialStatusId?: number;
+    http: {
+      requestsPerSecond: number;
+      timeoutMs: number;
+      maxRetries: number;
+    };
+    openLeadReuse: {
+      enabled: boolean;
+      windowDays: number;
+      pipelineIds: number[];
+    };
+    followUpTasks: {
+      enabled: boolean;
+      /** 1 is amoCRM's built-in "Follow-up" type. */
+      taskTypeId: number;
+      /** Placeholders: {name}, {phone}, {email}, {telegram}, {channel}, {form_id}, {program}. */
+      text: string;
+      /** Working minutes from arrival until the task is due. */
+      dueMinutes: number;
+    };
+  };
+  /** When tasks may fall due; partial-response and follow-up tasks are pushed into these hours. */
+  workingHours: WorkingHours;
+  phone: {
+    defaultCountryCode: string;
+  };
+  mapping: {
+    documentPath?: string;
+    legacyFieldMap?: string;
+    /** What startup does when mappings do not fit the live amoCRM custom fields. */
+    schemaCheck: "off" | "warn" | "fail";
+  };
+  routing: {
+    documentPath?: string;
+  };
+  notes: {
+    locale: NoteLocale;
+  };
+  conversions: {
+    /** JSON document mapping lead statuses to offline conversion events, see src/conversions.ts. */
+    documentPath?: string;
+    /** Secret path segment of `/webhooks/amocrm/:token`; the endpoint answers 404 without it. */
+    webhookToken?: string;
+  };
+  attribution: {
+    /** Text lead fields for the contact's first and last touch ("source / medium / campaign, date"); unset skips the write. */
+    firstTouchFieldId?: number;
+    lastTouchFieldId?: number;
+  };
+  admin: {
+    apiKeys: Array<{ name: string; key: string }>;
+  };
+  worker: {
+    pollIntervalMs: number;
+    maxAttempts: number;
+    backoffBaseMs: number;
+    backoffMaxMs: number;
+    staleLockMs: number;
   };
 };
 
@@ -37,6 +116,45 @@ function toInt(name: string, value: string | undefined): number | undefined {
   return n;
 }
 
+function toBool(name: string, value: string | undefined): boolean | undefined {
+  if (value === undefined) return undefined;
+  const v = value.trim().toLowerCase();
+  if (["1", "true", "yes", "on"].includes(v)) return true;
+  if (["0", "false", "no", "off"].includes(v)) return false;
+  throw new Error(`Invalid boolean env var ${name}=${value}`);
+}
+
+function toIntList(name: string, value: string | undefined): number[] | undefined {
+  if (value === undefined) return undefined;
+  return value.split(",").map((part) => {
+    const n = toInt(name, part.trim());
+    if (n === undefined) throw new Error(`Invalid integer list env var ${name}=${value}`);
+    return n;
+  });
+}
+
+function parseApiKeys(name: string, raw: string | undefined): Array<{ name: string; key: string }> {
+  if (!raw) return [];
+  return raw.split(",").map((entry) => {
+    const idx = entry.indexOf(":");
+    const keyName = idx > 0 ? entry.slice(0, idx).trim() : "";
+    const key = idx > 0 ? entry.slice(idx + 1).trim() : "";
+    if (!keyName || key.length < 16) throw new Error(`Invalid ${name} entry, expected name:key with a key of 16+ chars`);
+    return { name: keyName, key };
+  });
+}
+
+function toWorkingHours(): WorkingHours {
+  const timeZone = readEnv("WORKING_HOURS_TIMEZONE") ?? "Asia/Tashkent";
+  if (!isTimeZone(timeZone)) throw new Error(`Invalid WORKING_HOURS_TIMEZONE=${timeZone}`);
+  const rawRange = readEnv("WORKING_HOURS") ?? "09:00-18:00";
+  const range = parseWorkingTimeRange(rawRange);
+  if (!range) throw new Error(`Invalid WORKING_HOURS=${rawRange}, expected HH:MM-HH:MM`);
+  const days = toIntList("WORKING_DAYS", readEnv("WORKING_DAYS")) ?? [1, 2, 3, 4, 5, 6];
+  if (!days.length || days.some((d) => d < 0 || d > 6)) throw new Error("Invalid WORKING_DAYS, expected weekdays 0 (Sunday) to 6");
+  return { timeZone, days, ...range };
+}
+
 function normalizeBaseUrl(name: string, raw: string): string {
   const trimmed = raw.trim();
   const withScheme = /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
@@ -54,12 +172,44 @@ export function getConfig(): AppConfig {
 
   const amoBaseUrl = normalizeBaseUrl("AMOCRM_BASE_URL", readEnv("AMOCRM_BASE_URL") ?? "https://example.amocrm.ru");
   const pipelineId = toInt("AMOCRM_PIPELINE_ID", readEnv("AMOCRM_PIPELINE_ID")) ?? 10482294;
+  const phoneCountryCode = (readEnv("PHONE_DEFAULT_COUNTRY_CODE") ?? "998").replace(/^\+/, "");
+  if (!/^\d{1,3}$/.test(phoneCountryCode)) throw new Error(`Invalid PHONE_DEFAULT_COUNTRY_CODE=${phoneCountryCode}`);
+  const previousSecret = readEnv("TYPEFORM_WEBHOOK_SECRET_PREVIOUS");
+  const previousSecretExpiresAt = readEnv("TYPEFORM_WEBHOOK_SECRET_PREVIOUS_EXPIRES_AT");
+  if (previousSecret && (!previousSecretExpiresAt || Number.isNaN(Date.parse(previousSecretExpiresAt)))) {
+    throw new Error("TYPEFORM_WEBHOOK_SECRET_PREVIOUS_EXPIRES_AT must be an ISO date when TYPEFORM_WEBHOOK_SECRET_PREVIOUS is set");
+  }
+  const partialMode = readEnv("TYPEFORM_PARTIAL_MODE") ?? "ignore";
+  if (partialMode !== "lead" && partialMode !== "task" && partialMode !== "ignore") {
+    throw new Error(`Invalid TYPEFORM_PARTIAL_MODE=${partialMode}, expected lead, task or ignore`);
+  }
+  const abandonedStatusId = toInt("AMOCRM_ABANDONED_STATUS_ID", readEnv("AMOCRM_ABANDONED_STATUS_ID"));
+  if (partialMode === "lead" && !abandonedStatusId) throw new Error("AMOCRM_ABANDONED_STATUS_ID is required when TYPEFORM_PARTIAL_MODE=lead");
+  const noteLocale = readEnv("NOTES_LOCALE") ?? "ru";
+  if (!NOTE_LOCALES.includes(noteLocale as NoteLocale)) throw new Error(`Invalid NOTES_LOCALE=${noteLocale}, expected ${NOTE_LOCALES.join(", ")}`);
+  const schemaCheck = readEnv("MAPPING_SCHEMA_CHECK") ?? "warn";
+  if (schemaCheck !== "off" && schemaCheck !== "warn" && schemaCheck !== "fail") {
+    throw new Error(`Invalid MAPPING_SCHEMA_CHECK=${schemaCheck}, expected off, warn or fail`);
+  }
 
   return {
     port,
     databaseUrl,
     typeform: {
-      webhookSecret: readEnv("TYPEFORM_WEBHOOK_SECRET")
+      webhookSecret: readEnv("TYPEFORM_WEBHOOK_SECRET"),
+      previousWebhookSecret:
+        previousSecret && previousSecretExpiresAt ? { value: previousSecret, expiresAt: new Date(previousSecretExpiresAt) } : undefined,
+      sourcesPath: readEnv("TYPEFORM_SOURCES_PATH"),
+      partialResponses: {
+        mode: partialMode,
+        abandonedPipelineId: toInt("AMOCRM_ABANDONED_PIPELINE_ID", readEnv("AMOCRM_ABANDONED_PIPELINE_ID")),
+        abandonedStatusId,
+        taskDelayMinutes: toInt("TYPEFORM_PARTIAL_TASK_DELAY_MINUTES", readEnv("TYPEFORM_PARTIAL_TASK_DELAY_MINUTES")) ?? 60
+      }
+    },
+    inbound: {
+      webhookSecret: readEnv("INBOUND_WEBHOOK_SECRET"),
+      apiKeys: parseApiKeys("INBOUND_API_KEYS", readEnv("INBOUND_API_KEYS"))
     },
     amocrm: {
       baseUrl: amoBaseUrl,
@@ -69,7 +219,57 @@ export function getConfig(): AppConfig {
       accessToken: readEnv("AMOCRM_ACCESS_TOKEN"),
       refreshToken: readEnv("AMOCRM_REFRESH_TOKEN"),
       pipelineId,
-      initialStatusId: toInt("AMOCRM_INITIAL_STATUS_ID", readEnv("AMOCRM_INITIAL_STATUS_ID"))
+      initialStatusId: toInt("AMOCRM_INITIAL_STATUS_ID", readEnv("AMOCRM_INITIAL_STATUS_ID")),
+      http: {
+        requestsPerSecond: toInt("AMOCRM_REQUESTS_PER_SECOND", readEnv("AMOCRM_REQUESTS_PER_SECOND")) ?? 6,
+        timeoutMs: toInt("AMOCRM_REQUEST_TIMEOUT_MS", readEnv("AMOCRM_REQUEST_TIMEOUT_MS")) ?? 15_000,
+        maxRetries: toInt("AMOCRM_MAX_RETRIES", readEnv("AMOCRM_MAX_RETRIES")) ?? 4
+      },
+      openLeadReuse: {
+        enabled: toBool("AMOCRM_REUSE_OPEN_LEADS", readEnv("AMOCRM_REUSE_OPEN_LEADS")) ?? false,
+        windowDays: toInt("AMOCRM_REUSE_WINDOW_DAYS", readEnv("AMOCRM_REUSE_WINDOW_DAYS")) ?? 90,
+        pipelineIds: toIntList("AMOCRM_REUSE_PIPELINE_IDS", readEnv("AMOCRM_REUSE_PIPELINE_IDS")) ?? [pipelineId]
+      },
+      followUpTasks: {
+        enabled: toBool("AMOCRM_FOLLOWUP_TASKS", readEnv("AMOCRM_FOLLOWUP_TASKS")) ?? true,
+        taskTypeId: toInt("AMOCRM_TASK_TYPE_ID", readEnv("AMOCRM_TASK_TYPE_ID")) ?? 1,
+        text: readEnv("AMOCRM_FOLLOWUP_TASK_TEXT") ?? "New lead from {channel}: call {name} {phone}",
+        dueMinutes: toInt("AMOCRM_FOLLOWUP_TASK_DUE_MINUTES", readEnv("AMOCRM_FOLLOWUP_TASK_DUE_MINUTES")) ?? 30
+      }
+    },
+    workingHours: toWorkingHours(),
+    phone: {
+      defaultCountryCode: phoneCountryCode
+    },
+    mapping: {
+      documentPath: readEnv("MAPPING_CONFIG_PATH"),
+      legacyFieldMap: readEnv("TYPEFORM_FIELD_MAP"),
+      schemaCheck
+    },
+    routing: {
+      documentPath: readEnv("ROUTING_CONFIG_PATH")
+    },
+    notes: {
+      locale: noteLocale as NoteLocale
+    },
+    conversions: {
+      documentPath: readEnv("CONVERSIONS_CONFIG_PATH"),
+      webhookToken: readEnv("AMOCRM_WEBHOOK_TOKEN")
+    },
+    attribution: {
+      // Two of the spare "GA UTM" text fields; 0 turns a write off.
+      firstTouchFieldId: (toInt("ATTRIBUTION_FIRST_TOUCH_FIELD_ID", readEnv("ATTRIBUTION_FIRST_TOUCH_FIELD_ID")) ?? 973433) || undefined,
+      lastTouchFieldId: (toInt("ATTRIBUTION_LAST_TOUCH_FIELD_ID", readEnv("ATTRIBUTION_LAST_TOUCH_FIELD_ID")) ?? 973529) || undefined
+    },
+    admin: {
+      apiKeys: parseApiKeys("ADMIN_API_KEYS", readEnv("ADMIN_API_KEYS"))
+    },
+    worker: {
+      pollIntervalMs: toInt("WORKER_POLL_INTERVAL_MS", readEnv("WORKER_POLL_INTERVAL_MS")) ?? 2000,
+      maxAttempts: toInt("WORKER_MAX_ATTEMPTS", readEnv("WORKER_MAX_ATTEMPTS")) ?? 10,
+      backoffBaseMs: toInt("WORKER_BACKOFF_BASE_MS", readEnv("WORKER_BACKOFF_BASE_MS")) ?? 30_000,
+      backoffMaxMs: toInt("WORKER_BACKOFF_MAX_MS", readEnv("WORKER_BACKOFF_MAX_MS")) ?? 3_600_000,
+      staleLockMs: toInt("WORKER_STALE_LOCK_MS", readEnv("WORKER_STALE_LOCK_MS")) ?? 600_000
     }
   };
 }
@@ -0,0 +1,37 @@
+export type TelegramContact = { username?: string; id?: string };
+
+/**
+ * Accepts "@handle", "handle", "t.me/handle" links and numeric user ids. Usernames keep
+ * their case but compare case-insensitively; anything else is not a Telegram contact.
+ */
+export function normalizeTelegram(raw: string | undefined): TelegramContact | undefined {
+  if (!raw || !raw.trim()) return undefined;
+  const s = raw
+    .trim()
+    .replace(/^(https?:\/\/)?(www\.)?(t|telegram)\.me\//i, "")
+    .replace(/^@/, "")
+    .replace(/\/+$/, "");
+  if (/^\d{5,15}$/.test(s)) return { id: s };
+  if (/^[A-Za-z][A-Za-z0-9_]{3,31}$/.test(s)) return { username: s };
+  return undefined;
+}
+
+export function sameTelegramUsername(a: string, b: string): boolean {
+  return a.replace(/^@/, "").trim().toLowerCase() === b.replace(/^@/, "").trim().toLowerCase();
+}
+
+// Labels as the admissions team writes them in "Язык общения".
+const LANGUAGE_LABELS: Record<string, string> = {
+  ru: "Русский",
+  uz: "O'zbek",
+  en: "English"
+};
+
+/** Typeform locales ("ru", "uz-UZ", "en_US") become labels; answers that are already labels pass through. */
+export function normalizeLanguage(raw: string | undefined): string | undefined {
+  const s = raw?.trim();
+  if (!s) return undefined;
+  const code = /^([a-z]{2})([-_][a-z]{2})?$/i.exec(s)?.[1]?.toLowerCase();
+  if (code) return LANGUAGE_LABELS[code] ?? s;
+  return s;
+}
@@ -0,0 +1,242 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import express from "express";
+import type pg from "pg";
+import type { OfflineConversionRow } from "./db";
+import { recordOfflineConversion } from "./db";
+import type { Issues } from "./validation";
+import { isNonEmptyString, isObject, isPositiveInt, isTimeZone } from "./validation";
+
+/** A lead status that counts as a conversion, e.g. "visited campus" or "contract signed". */
+export type ConversionEvent = {
+  key: string;
+  statusId: number;
+  /** Narrows the match when the status id alone is ambiguous (142/143 are shared by all pipelines). */
+  pipelineId?: number;
+  googleAds?: { conversionName: string };
+  /** Identifier of the Metrica goal of type "JavaScript event". */
+  yandex?: { target: string };
+  value?: number;
+  currency?: string;
+};
+
+export type ConversionsDocument = {
+  version: 1;
+  /** Time zone of the Google Ads account; conversion times in the CSV are local to it. */
+  timeZone: string;
+  events: ConversionEvent[];
+};
+
+export const DEFAULT_CONVERSIONS_DOCUMENT: ConversionsDocument = { version: 1, timeZone: "Asia/Tashkent", events: [] };
+
+export function validateConversionsDocument(v: unknown): Issues {
+  const issues: Issues = [];
+  if (!isObject(v)) return ["document: must be a JSON object"];
+  if (v.version !== 1) issues.push(`version: unsupported version ${JSON.stringify(v.version)}, expected 1`);
+  if (v.timeZone !== undefined && (!isNonEmptyString(v.timeZone) || !isTimeZone(v.timeZone))) {
+    issues.push("timeZone: must be an IANA time zone such as Asia/Tashkent");
+  }
+  if (!Array.isArray(v.events)) return [...issues, "events: must be an array"];
+
+  const keys = new Set<string>();
+  v.events.forEach((e, i) => {
+    const p = `events[${i}]`;
+    if (!isObject(e)) return issues.push(`${p}: must be an object`);
+    if (typeof e.key !== "string" || !/^[a-z0-9][a-z0-9_-]*$/.test(e.key)) {
+      issues.push(`${p}.key: must be lowercase letters, digits, "-" or "_"`);
+    } else if (keys.has(e.key)) {
+      issues.push(`${p}.key: duplicate key "${e.key}"`);
+    } else {
+      keys.add(e.key);
+    }
+    if (!isPositiveInt(e.statusId)) issues.push(`${p}.statusId: must be a positive integer`);
+    if (e.pipelineId !== undefined && !isPositiveInt(e.pipelineId)) issues.push(`${p}.pipelineId: must be a positive integer`);
+    if (e.googleAds !== undefined && (!isObject(e.googleAds) || !isNonEmptyString(e.googleAds.conversionName))) {
+      issues.push(`${p}.googleAds.conversionName: must be a non-empty string`);
+    }
+    if (e.yandex !== undefined && (!isObject(e.yandex) || !isNonEmptyString(e.yandex.target))) {
+      issues.push(`${p}.yandex.target: must be a non-empty string`);
+    }
+    if (e.googleAds === undefined && e.yandex === undefined) issues.push(`${p}: must have "googleAds", "yandex" or both`);
+    if (e.value !== undefined && (typeof e.value !== "number" || !Number.isFinite(e.value) || e.value < 0)) {
+      issues.push(`${p}.value: must be a non-negative number`);
+    }
+    if (e.currency !== undefined && (typeof e.currency !== "string" || !/^[A-Z]{3}$/.test(e.currency))) {
+      issues.push(`${p}.currency: must be an ISO 4217 code such as UZS`);
+    }
+  });
+  return issues;
+}
+
+export function loadConversionsDocument(path: string | undefined): ConversionsDocument {
+  if (!path) return DEFAULT_CONVERSIONS_DOCUMENT;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(path, "utf8"));
+  } catch (e) {
+    const message = e instanceof Error ? e.message : "Unknown error";
+    throw new Error(`Cannot read conversions document ${path}: ${message}`);
+  }
+  const issues = validateConversionsDocument(parsed);
+  if (issues.length) throw new Error(`Invalid conversions document ${path}:\n  - ${issues.join("\n  - ")}`);
+  const doc = parsed as Omit<ConversionsDocument, "timeZone"> & { timeZone?: string };
+  return { ...doc, timeZone: doc.timeZone ?? DEFAULT_CONVERSIONS_DOCUMENT.timeZone };
+}
+
+export type LeadStatusChange = {
+  leadId: number;
+  statusId: number;
+  pipelineId?: number;
+  changedAt?: Date;
+};
+
+/**
+ * Reads `leads[status][n][...]` from an amoCRM webhook body, as parsed by
+ * `express.urlencoded({ extended: true })`. Entries without numeric ids are skipped.
+ */
+export function parseLeadStatusChanges(body: unknown): LeadStatusChange[] {
+  const leads = isObject(body) && isObject(body.leads) ? body.leads : undefined;
+  const status = leads?.status;
+  const entries = Array.isArray(status) ? status : isObject(status) ? Object.values(status) : [];
+  return entries.flatMap((e) => {
+    if (!isObject(e)) return [];
+    const leadId = Number(e.id);
+    const statusId = Number(e.status_id);
+    if (!isPositiveInt(leadId) || !isPositiveInt(statusId)) return [];
+    const pipelineId = Number(e.pipeline_id);
+    const updatedAt = Number(e.updated_at ?? e.last_modified);
+    return [
+      {
+        leadId,
+        statusId,
+        pipelineId: isPositiveInt(pipelineId) ? pipelineId : undefined,
+        changedAt: isPositiveInt(updatedAt) ? new Date(updatedAt * 1000) : undefined
+      }
+    ];
+  });
+}
+
+export function matchConversionEvents(document: ConversionsDocument, change: LeadStatusChange): ConversionEvent[] {
+  return document.events.filter((e) => e.statusId === change.statusId && (!e.pipelineId || e.pipelineId === change.pipelineId));
+}
+
+function csvCell(v: string | number | undefined | null): string {
+  const s = v === undefined || v === null ? "" : String(v);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function csvLine(cells: Array<string | number | undefined | null>): string {
+  return cells.map(csvCell).join(",");
+}
+
+/** "2025-03-01 15:04:05" in `timeZone`, the format Google Ads expects next to a TimeZone parameter. */
+function localDateTime(date: Date, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23"
+  }).formatToParts(date);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+  return `${get("year")}-${get("month")}-${get("day")} ${get("hour")}:${get("minute")}:${get("second")}`;
+}
+
+/** Google Ads offline conversion import file ("Conversions from clicks" template). */
+export function renderGoogleAdsCsv(rows: OfflineConversionRow[], timeZone: string): string {
+  const lines = [
+    `Parameters:TimeZone=${timeZone}`,
+    csvLine(["Google Click ID", "Conversion Name", "Conversion Time", "Conversion Value", "Conversion Currency"]),
+    ...rows.map((r) =>
+      csvLine([r.gclid, r.google_conversion_name, localDateTime(r.converted_at, timeZone), r.value, r.value ? r.currency : undefined])
+    )
+  ];
+  return `${lines.join("\r\n")}\r\n`;
+}
+
+/** Yandex Metrica offline conversions file: matched by ClientId (`_ym_uid`) or Yclid, time as a unix timestamp. */
+export function renderYandexCsv(rows: OfflineConversionRow[]): string {
+  const lines = [
+    csvLine(["ClientId", "Yclid", "Target", "DateTime", "Price", "Currency"]),
+    ...rows.map((r) =>
+      csvLine([
+        r.ym_uid,
+        r.ym_uid ? undefined : r.yclid,
+        r.yandex_target,
+        Math.floor(r.converted_at.getTime() / 1000),
+        r.value,
+        r.value ? r.currency : undefined
+      ])
+    )
+  ];
+  return `${lines.join("\r\n")}\r\n`;
+}
+
+function tokenMatches(expected: string, got: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(got);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * `POST /webhooks/amocrm/:token`: the amoCRM "lead status changed" webhook. amoCRM does not
+ * sign webhooks, so the URL carries a secret token. Status changes that match a configured
+ * event are recorded as offline conversions for the admin exports.
+ */
+export function createAmoWebhookRouter(params: {
+  pool: pg.Pool;
+  document: ConversionsDocument;
+  token?: string;
+}): express.Router {
+  const { pool, document, token } = params;
+  const router = express.Router();
+
+  router.post("/:token", express.urlencoded({ extended: true, limit: "1mb" }), async (req, res) => {
+    if (!token || !tokenMatches(token, req.params.token)) {
+      console.log(JSON.stringify({ msg: "amocrm_webhook_rejected", reason: token ? "invalid_token" : "not_configured" }));
+      return res.status(404).json({ ok: false, error: "Not found" });
+    }
+    try {
+      const changes = parseLeadStatusChanges(req.body);
+      let recorded = 0;
+      for (const change of changes) {
+        for (const event of matchConversionEvents(document, change)) {
+          const row = await recordOfflineConversion({
+            pool,
+            eventKey: event.key,
+            amoLeadId: change.leadId,
+            pipelineId: change.pipelineId,
+            statusId: change.statusId,
+            googleConversionName: event.googleAds?.conversionName,
+            yandexTarget: event.yandex?.target,
+            value: event.value,
+            currency: event.currency,
+            convertedAt: change.changedAt ?? new Date()
+          });
+          if (row) recorded += 1;
+          console.log(
+            JSON.stringify({
+              msg: row ? "offline_conversion_recorded" : "offline_conversion_duplicate",
+              event: event.key,
+              amo_lead_id: change.leadId,
+              status_id: change.statusId,
+              has_gclid: !!row?.gclid,
+              has_yclid: !!row?.yclid,
+              has_ym_uid: !!row?.ym_uid
+            })
+          );
+        }
+      }
+      return res.status(200).json({ ok: true, changes: changes.length, recorded });
+    } catch (e) {
+      const message = e instanceof Error ? e.message : "Unknown error";
+      console.error(JSON.stringify({ msg: "amocrm_webhook_error", error: message }));
+      return res.status(500).json({ ok: false, error: message });
+    }
+  });
+
+  return router;
+}
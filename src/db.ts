@@ -1,4 +1,5 @@
 import pg from "pg";
+import type { Touch } from "./attribution";
 
 export type Db = {
   pool: pg.Pool;
@@ -42,7 +43,166 @@ async function ensureSchema(pool: pg.Pool): Promise<void> {
 
   await pool.query(`ALTER TABLE typeform_submissions ADD COLUMN IF NOT EXISTS last_event_id TEXT;`);
   await pool.query(`ALTER TABLE typeform_submissions ADD COLUMN IF NOT EXISTS last_event_type TEXT;`);
+  await pool.query(`ALTER TABLE typeform_submissions ADD COLUMN IF NOT EXISTS contact_match TEXT;`);
+  await pool.query(`ALTER TABLE typeform_submissions ADD COLUMN IF NOT EXISTS contact_match_reason TEXT;`);
+  await pool.query(`ALTER TABLE typeform_submissions ADD COLUMN IF NOT EXISTS lead_decision TEXT;`);
+  await pool.query(`ALTER TABLE typeform_submissions ADD COLUMN IF NOT EXISTS response_kind TEXT;`);
+  await pool.query(`ALTER TABLE typeform_submissions ADD COLUMN IF NOT EXISTS source_key TEXT;`);
+  await pool.query(`ALTER TABLE typeform_submissions ADD COLUMN IF NOT EXISTS channel TEXT NOT NULL DEFAULT 'typeform';`);
   await pool.query(`CREATE INDEX IF NOT EXISTS typeform_submissions_landing_idx ON typeform_submissions (form_id, landing_id, updated_at DESC);`);
+
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS typeform_jobs (
+      id BIGSERIAL PRIMARY KEY,
+      form_id TEXT NOT NULL,
+      response_token TEXT NOT NULL,
+      event_id TEXT,
+      event_type TEXT,
+      payload JSONB NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      attempts INT NOT NULL DEFAULT 0,
+      run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      locked_at TIMESTAMPTZ,
+      locked_by TEXT,
+      last_error TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+  `);
+
+  await pool.query(`CREATE UNIQUE INDEX IF NOT EXISTS typeform_jobs_event_idx ON typeform_jobs (event_id) WHERE event_id IS NOT NULL;`);
+  await pool.query(
+    `CREATE UNIQUE INDEX IF NOT EXISTS typeform_jobs_processing_token_idx ON typeform_jobs (response_token) WHERE status='processing';`
+  );
+  await pool.query(`CREATE INDEX IF NOT EXISTS typeform_jobs_pending_idx ON typeform_jobs (run_at, id) WHERE status='pending';`);
+  await pool.query(`CREATE INDEX IF NOT EXISTS typeform_jobs_token_idx ON typeform_jobs (response_token, id);`);
+  await pool.query(`ALTER TABLE typeform_jobs ADD COLUMN IF NOT EXISTS triggered_by TEXT;`);
+  await pool.query(`ALTER TABLE typeform_jobs ADD COLUMN IF NOT EXISTS source_key TEXT;`);
+
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS submission_replays (
+      id BIGSERIAL PRIMARY KEY,
+      submission_id BIGINT NOT NULL REFERENCES typeform_submissions(id),
+      job_id BIGINT REFERENCES typeform_jobs(id),
+      triggered_by TEXT NOT NULL,
+      status TEXT NOT NULL,
+      error TEXT,
+      amo_lead_id BIGINT,
+      amo_contact_id BIGINT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      finished_at TIMESTAMPTZ
+    );
+  `);
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS routing_rotation (
+      team TEXT PRIMARY KEY,
+      position BIGINT NOT NULL,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+  `);
+
+  await pool.query(`CREATE INDEX IF NOT EXISTS submission_replays_submission_idx ON submission_replays (submission_id, id DESC);`);
+
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS amocrm_sync_sagas (
+      id BIGSERIAL PRIMARY KEY,
+      response_token TEXT NOT NULL,
+      job_id BIGINT,
+      status TEXT NOT NULL DEFAULT 'open',
+      steps JSONB NOT NULL DEFAULT '{}'::jsonb,
+      lead_id BIGINT,
+      contact_id BIGINT,
+      contact_match JSONB,
+      lead_decision TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      finished_at TIMESTAMPTZ
+    );
+  `);
+  await pool.query(
+    `CREATE UNIQUE INDEX IF NOT EXISTS amocrm_sync_sagas_open_token_idx ON amocrm_sync_sagas (response_token) WHERE status='open';`
+  );
+  await pool.query(`CREATE INDEX IF NOT EXISTS amocrm_sync_sagas_token_idx ON amocrm_sync_sagas (response_token, id DESC);`);
+  await pool.query(`ALTER TABLE amocrm_sync_sagas ADD COLUMN IF NOT EXISTS assignee JSONB;`);
+
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS amocrm_schema_snapshots (
+      id BIGSERIAL PRIMARY KEY,
+      leads JSONB NOT NULL,
+      contacts JSONB NOT NULL,
+      changes JSONB NOT NULL DEFAULT '[]'::jsonb,
+      fetched_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      checked_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+  `);
+
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS attribution_touches (
+      id BIGSERIAL PRIMARY KEY,
+      response_token TEXT NOT NULL UNIQUE,
+      form_id TEXT NOT NULL,
+      channel TEXT NOT NULL,
+      amo_contact_id BIGINT,
+      amo_lead_id BIGINT,
+      contact_phone TEXT,
+      contact_email TEXT,
+      contact_telegram TEXT,
+      source TEXT NOT NULL,
+      medium TEXT NOT NULL,
+      utm_source TEXT,
+      utm_medium TEXT,
+      utm_campaign TEXT,
+      utm_content TEXT,
+      utm_term TEXT,
+      gclid TEXT,
+      yclid TEXT,
+      fbclid TEXT,
+      ym_uid TEXT,
+      referrer TEXT,
+      touched_at TIMESTAMPTZ NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+  `);
+  await pool.query(`CREATE INDEX IF NOT EXISTS attribution_touches_contact_idx ON attribution_touches (amo_contact_id, touched_at, id);`);
+  await pool.query(`CREATE INDEX IF NOT EXISTS attribution_touches_touched_idx ON attribution_touches (touched_at);`);
+  await pool.query(`CREATE INDEX IF NOT EXISTS attribution_touches_phone_idx ON attribution_touches (contact_phone);`);
+  await pool.query(`CREATE INDEX IF NOT EXISTS attribution_touches_email_idx ON attribution_touches (contact_email);`);
+  await pool.query(`CREATE INDEX IF NOT EXISTS attribution_touches_telegram_idx ON attribution_touches (contact_telegram);`);
+  await pool.query(`CREATE INDEX IF NOT EXISTS attribution_touches_lead_idx ON attribution_touches (amo_lead_id);`);
+
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS conversion_exports (
+      id BIGSERIAL PRIMARY KEY,
+      target TEXT NOT NULL,
+      row_count INT NOT NULL DEFAULT 0,
+      content TEXT NOT NULL DEFAULT '',
+      created_by TEXT NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+  `);
+
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS offline_conversions (
+      id BIGSERIAL PRIMARY KEY,
+      event_key TEXT NOT NULL,
+      amo_lead_id BIGINT NOT NULL,
+      pipeline_id BIGINT,
+      status_id BIGINT NOT NULL,
+      gclid TEXT,
+      yclid TEXT,
+      ym_uid TEXT,
+      google_conversion_name TEXT,
+      yandex_target TEXT,
+      value NUMERIC,
+      currency TEXT,
+      converted_at TIMESTAMPTZ NOT NULL,
+      google_export_id BIGINT REFERENCES conversion_exports(id),
+      yandex_export_id BIGINT REFERENCES conversion_exports(id),
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      UNIQUE (event_key, amo_lead_id)
+    );
+  `);
 }
 
 export async function kvGet(pool: pg.Pool, key: string): Promise<string | undefined> {
@@ -62,6 +222,52 @@ export async function kvSet(pool: pg.Pool, key: string, value: string): Promise<
   );
 }
 
+export async function kvDelete(pool: pg.Pool, key: string): Promise<void> {
+  await pool.query("DELETE FROM kv_store WHERE key=$1", [key]);
+}
+
+/** Deletes the key and returns its value, so a one-time value can only be consumed once. */
+export async function kvTake(pool: pg.Pool, key: string): Promise<{ value: string; updatedAt: Date } | undefined> {
+  const res = await pool.query<{ value: string; updated_at: Date }>("DELETE FROM kv_store WHERE key=$1 RETURNING value, updated_at", [
+    key
+  ]);
+  const row = res.rows[0];
+  return row ? { value: row.value, updatedAt: row.updated_at } : undefined;
+}
+
+/**
+ * Runs `fn` while holding a session-level advisory lock, so only one instance at a time
+ * executes it. The lock lives on a dedicated connection and is released with it.
+ */
+export async function withAdvisoryLock<T>(pool: pg.Pool, name: string, fn: () => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+  try {
+    await client.query("SELECT pg_advisory_lock(hashtext($1))", [name]);
+    try {
+      return await fn();
+    } finally {
+      await client.query("SELECT pg_advisory_unlock(hashtext($1))", [name]);
+    }
+  } finally {
+    client.release();
+  }
+}
+
+/** Atomically hands out 0, 1, 2, ... per team; callers take it modulo the team size. */
+export async function nextRotationPosition(pool: pg.Pool, team: string): Promise<number> {
+  const res = await pool.query<{ position: string }>(
+    `
+    INSERT INTO routing_rotation(team, position, updated_at)
+    VALUES ($1, 1, NOW())
+    ON CONFLICT (team)
+    DO UPDATE SET position=routing_rotation.position + 1, updated_at=NOW()
+    RETURNING position - 1 AS position;
+  `,
+    [team]
+  );
+  return Number(res.rows[0].position);
+}
+
 export type SubmissionRow = {
   id: string;
   form_id: string;
@@ -72,13 +278,23 @@ export type SubmissionRow = {
   last_event_type: string | null;
   amo_lead_id: string | null;
   amo_contact_id: string | null;
+  contact_match: string | null;
+  contact_match_reason: string | null;
+  lead_decision: string | null;
+  /** "partial" until a full form_response arrived for the token, then "complete". */
+  response_kind: "partial" | "complete" | null;
+  /** Webhook source the submission came in through; null for the default `/webhooks/typeform`. */
+  source_key: string | null;
+  /** "typeform", or the channel of a lead posted to `/webhooks/leads` (see src/inbound.ts). */
+  channel: string;
   last_payload: unknown | null;
 };
 
 export async function getSubmissionByToken(pool: pg.Pool, responseToken: string): Promise<SubmissionRow | undefined> {
   const res = await pool.query<SubmissionRow>(
     `
-    SELECT id, form_id, response_token, landing_id, submitted_at, last_event_id, last_event_type, amo_lead_id, amo_contact_id, last_payload
+    SELECT id, form_id, response_token, landing_id, submitted_at, last_event_id, last_event_type, amo_lead_id, amo_contact_id,
+      contact_match, contact_match_reason, lead_decision, response_kind, source_key, channel, last_payload
     FROM typeform_submissions
     WHERE response_token=$1
   `,
@@ -95,9 +311,10 @@ export async function getLatestSubmissionByLandingId(params: {
   const { pool, formId, landingId } = params;
   const res = await pool.query<SubmissionRow>(
     `
-    SELECT id, form_id, response_token, landing_id, submitted_at, last_event_id, last_event_type, amo_lead_id, amo_contact_id, last_payload
+    SELECT id, form_id, response_token, landing_id, submitted_at, last_event_id, last_event_type, amo_lead_id, amo_contact_id,
+      contact_match, contact_match_reason, lead_decision, response_kind, source_key, channel, last_payload
     FROM typeform_submissions
-    WHERE form_id=$1 AND landing_id=$2
+    WHERE form_id=$1 AND landing_id=$2 AND amo_lead_id IS NOT NULL
     ORDER BY updated_at DESC
     LIMIT 1
   `,
@@ -106,6 +323,40 @@ export async function getLatestSubmissionByLandingId(params: {
   return res.rows[0];
 }
 
+/**
+ * Creates the submission row before the first amoCRM write, so a response whose first
+ * sync fails is listed and replayable from the admin API. An existing row is left alone:
+ * its `last_payload` is the previous version that update notes are diffed against.
+ */
+export async function recordPendingSubmission(params: {
+  pool: pg.Pool;
+  formId: string;
+  responseToken: string;
+  landingId?: string;
+  submittedAt?: string;
+  sourceKey?: string;
+  channel?: string;
+  payload: unknown;
+}): Promise<void> {
+  const { pool, formId, responseToken, landingId, submittedAt, sourceKey, channel, payload } = params;
+  await pool.query(
+    `
+    INSERT INTO typeform_submissions (form_id, response_token, landing_id, submitted_at, source_key, channel, last_payload)
+    VALUES ($1, $2, $3, $4, $5, $6, $7::jsonb)
+    ON CONFLICT (response_token) DO NOTHING
+  `,
+    [
+      formId,
+      responseToken,
+      landingId ?? null,
+      submittedAt ? new Date(submittedAt) : null,
+      sourceKey ?? null,
+      channel ?? "typeform",
+      JSON.stringify(payload)
+    ]
+  );
+}
+
 export async function upsertSubmission(params: {
   pool: pg.Pool;
   formId: string;
@@ -116,16 +367,41 @@ export async function upsertSubmission(params: {
   lastEventType?: string;
   amoLeadId?: number;
   amoContactId?: number;
+  contactMatch?: string;
+  contactMatchReason?: string;
+  leadDecision?: string;
+  responseKind?: "partial" | "complete";
+  sourceKey?: string;
+  channel?: string;
   lastPayload: unknown;
 }): Promise<void> {
-  const { pool, formId, responseToken, landingId, submittedAt, lastEventId, lastEventType, amoLeadId, amoContactId, lastPayload } = params;
+  const {
+    pool,
+    formId,
+    responseToken,
+    landingId,
+    submittedAt,
+    lastEventId,
+    lastEventType,
+    amoLeadId,
+    amoContactId,
+    contactMatch,
+    contactMatchReason,
+    leadDecision,
+    responseKind,
+    sourceKey,
+    channel,
+    lastPayload
+  } = params;
 
   await pool.query(
     `
     INSERT INTO typeform_submissions (
-      form_id, response_token, landing_id, submitted_at, last_event_id, last_event_type, amo_lead_id, amo_contact_id, last_payload, updated_at
+      form_id, response_token, landing_id, submitted_at, last_event_id, last_event_type, amo_lead_id, amo_contact_id,
+      contact_match, contact_match_reason, lead_decision, response_kind, source_key, channel, last_payload,
+      updated_at
     )
-    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9::jsonb, NOW())
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15::jsonb, NOW())
     ON CONFLICT (response_token)
     DO UPDATE SET
       form_id=EXCLUDED.form_id,
@@ -135,6 +411,14 @@ export async function upsertSubmission(params: {
       last_event_type=COALESCE(EXCLUDED.last_event_type, typeform_submissions.last_event_type),
       amo_lead_id=COALESCE(EXCLUDED.amo_lead_id, typeform_submissions.amo_lead_id),
       amo_contact_id=COALESCE(EXCLUDED.amo_contact_id, typeform_submissions.amo_contact_id),
+      contact_match=COALESCE(EXCLUDED.contact_match, typeform_submissions.contact_match),
+      contact_match_reason=COALESCE(EXCLUDED.contact_match_reason, typeform_submissions.contact_match_reason),
+      lead_decision=COALESCE(typeform_submissions.lead_decision, EXCLUDED.lead_decision),
+      response_kind=CASE
+        WHEN typeform_submissions.response_kind='complete' THEN 'complete'
+        ELSE COALESCE(EXCLUDED.response_kind, typeform_submissions.response_kind)
+      END,
+      source_key=COALESCE(EXCLUDED.source_key, typeform_submissions.source_key),
       last_payload=EXCLUDED.last_payload,
       updated_at=NOW();
   `,
@@ -147,7 +431,855 @@ export async function upsertSubmission(params: {
       lastEventType ?? null,
       amoLeadId ?? null,
       amoContactId ?? null,
+      contactMatch ?? null,
+      contactMatchReason ?? null,
+      leadDecision ?? null,
+      responseKind ?? null,
+      sourceKey ?? null,
+      channel ?? "typeform",
       JSON.stringify(lastPayload)
     ]
   );
 }
+
+/** "ignored" jobs are stored for the record only and never claimed by the worker. */
+export type TypeformJobStatus = "pending" | "processing" | "done" | "dead" | "ignored";
+
+export type TypeformJobRow = {
+  id: string;
+  form_id: string;
+  response_token: string;
+  event_id: string | null;
+  event_type: string | null;
+  payload: unknown;
+  source_key: string | null;
+  status: TypeformJobStatus;
+  attempts: number;
+  run_at: Date;
+  last_error: string | null;
+};
+
+export async function enqueueTypeformJob(params: {
+  pool: pg.Pool;
+  formId: string;
+  responseToken: string;
+  eventId?: string;
+  eventType?: string;
+  payload: unknown;
+  sourceKey?: string;
+  ignored?: boolean;
+}): Promise<{ jobId?: string; duplicate: boolean }> {
+  const { pool, formId, responseToken, eventId, eventType, payload, sourceKey, ignored } = params;
+  const res = await pool.query<{ id: string }>(
+    `
+    INSERT INTO typeform_jobs (form_id, response_token, event_id, event_type, payload, source_key, status)
+    VALUES ($1, $2, $3, $4, $5::jsonb, $6, $7)
+    ON CONFLICT (event_id) WHERE event_id IS NOT NULL
+    DO NOTHING
+    RETURNING id;
+  `,
+    [
+      formId,
+      responseToken,
+      eventId ?? null,
+      eventType ?? null,
+      JSON.stringify(payload),
+      sourceKey ?? null,
+      ignored ? "ignored" : "pending"
+    ]
+  );
+  const jobId = res.rows[0]?.id;
+  return { jobId, duplicate: !jobId };
+}
+
+export async function claimNextTypeformJob(pool: pg.Pool, workerId: string): Promise<TypeformJobRow | undefined> {
+  // A job is only claimable when no other job for the same response_token is being processed
+  // or is queued ahead of it. The partial unique index on (response_token) WHERE status='processing'
+  // is the hard guarantee when two workers race for different jobs of the same token.
+  try {
+    const res = await pool.query<TypeformJobRow>(
+      `
+      UPDATE typeform_jobs
+      SET status='processing', attempts=attempts + 1, locked_at=NOW(), locked_by=$1, updated_at=NOW()
+      WHERE id = (
+        SELECT j.id
+        FROM typeform_jobs j
+        WHERE j.status='pending'
+          AND j.run_at <= NOW()
+          AND NOT EXISTS (
+            SELECT 1 FROM typeform_jobs o
+            WHERE o.response_token=j.response_token
+              AND (o.status='processing' OR (o.status='pending' AND o.id < j.id))
+          )
+        ORDER BY j.run_at, j.id
+        FOR UPDATE SKIP LOCKED
+        LIMIT 1
+      )
+      RETURNING id, form_id, response_token, event_id, event_type, payload, source_key, status, attempts, run_at, last_error;
+    `,
+      [workerId]
+    );
+    return res.rows[0];
+  } catch (e) {
+    if ((e as { code?: string }).code === "23505") return undefined;
+    throw e;
+  }
+}
+
+/**
+ * Keeps a claimed job from being released as stale while its sync is still running.
+ * Returns false once the job is no longer locked by `lockedBy`.
+ */
+export async function heartbeatTypeformJob(pool: pg.Pool, jobId: string, lockedBy: string): Promise<boolean> {
+  const res = await pool.query(
+    `
+    UPDATE typeform_jobs
+    SET locked_at=NOW(), updated_at=NOW()
+    WHERE id=$1 AND status='processing' AND locked_by=$2
+  `,
+    [jobId, lockedBy]
+  );
+  return (res.rowCount ?? 0) > 0;
+}
+
+/** Returns false when the lock was lost (released as stale and claimed again); the job is then left alone. */
+export async function completeTypeformJob(pool: pg.Pool, jobId: string, lockedBy: string): Promise<boolean> {
+  const res = await pool.query(
+    `
+    UPDATE typeform_jobs
+    SET status='done', locked_at=NULL, locked_by=NULL, last_error=NULL, updated_at=NOW()
+    WHERE id=$1 AND status='processing' AND locked_by=$2
+  `,
+    [jobId, lockedBy]
+  );
+  return (res.rowCount ?? 0) > 0;
+}
+
+/** Returns false when the lock was lost, like `completeTypeformJob`. */
+export async function failTypeformJob(params: {
+  pool: pg.Pool;
+  jobId: string;
+  lockedBy: string;
+  error: string;
+  retryAt?: Date;
+}): Promise<boolean> {
+  const { pool, jobId, lockedBy, error, retryAt } = params;
+  const res = await pool.query(
+    `
+    UPDATE typeform_jobs
+    SET status=$3, run_at=COALESCE($4, run_at), last_error=$5, locked_at=NULL, locked_by=NULL, updated_at=NOW()
+    WHERE id=$1 AND status='processing' AND locked_by=$2
+  `,
+    [jobId, lockedBy, retryAt ? "pending" : "dead", retryAt ?? null, error]
+  );
+  return (res.rowCount ?? 0) > 0;
+}
+
+export async function releaseStaleTypeformJobs(pool: pg.Pool, staleAfterMs: number): Promise<number> {
+  const res = await pool.query(
+    `
+    UPDATE typeform_jobs
+    SET status='pending', locked_at=NULL, locked_by=NULL, updated_at=NOW()
+    WHERE status='processing' AND locked_at < NOW() - make_interval(secs => $1::double precision / 1000)
+  `,
+    [staleAfterMs]
+  );
+  return res.rowCount ?? 0;
+}
+
+export type SubmissionListRow = Omit<SubmissionRow, "last_payload"> & {
+  created_at: Date;
+  updated_at: Date;
+  job_status: TypeformJobStatus | null;
+  job_attempts: number | null;
+  job_last_error: string | null;
+};
+
+export async function listSubmissions(params: {
+  pool: pg.Pool;
+  formId?: string;
+  channel?: string;
+  status?: TypeformJobStatus;
+  from?: Date;
+  to?: Date;
+  hasLead?: boolean;
+  limit: number;
+  offset: number;
+}): Promise<SubmissionListRow[]> {
+  const { pool, formId, channel, status, from, to, hasLead, limit, offset } = params;
+  const where: string[] = [];
+  const values: unknown[] = [];
+  const bind = (v: unknown) => {
+    values.push(v);
+    return `$${values.length}`;
+  };
+
+  if (formId) where.push(`s.form_id=${bind(formId)}`);
+  if (channel) where.push(`s.channel=${bind(channel)}`);
+  if (status) where.push(`j.status=${bind(status)}`);
+  if (from) where.push(`s.created_at >= ${bind(from)}`);
+  if (to) where.push(`s.created_at < ${bind(to)}`);
+  if (hasLead === true) where.push("s.amo_lead_id IS NOT NULL");
+  if (hasLead === false) where.push("s.amo_lead_id IS NULL");
+
+  const res = await pool.query<SubmissionListRow>(
+    `
+    SELECT s.id, s.form_id, s.response_token, s.landing_id, s.submitted_at, s.last_event_id, s.last_event_type,
+      s.amo_lead_id, s.amo_contact_id, s.contact_match, s.contact_match_reason, s.lead_decision, s.response_kind, s.source_key,
+      s.channel, s.created_at, s.updated_at,
+      j.status AS job_status, j.attempts AS job_attempts, j.last_error AS job_last_error
+    FROM typeform_submissions s
+    LEFT JOIN LATERAL (
+      SELECT status, attempts, last_error FROM typeform_jobs
+      WHERE response_token=s.response_token
+      ORDER BY id DESC
+      LIMIT 1
+    ) j ON TRUE
+    ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+    ORDER BY s.created_at DESC, s.id DESC
+    LIMIT ${bind(limit)} OFFSET ${bind(offset)}
+  `,
+    values
+  );
+  return res.rows;
+}
+
+export async function getSubmissionById(pool: pg.Pool, id: string): Promise<SubmissionRow | undefined> {
+  const res = await pool.query<SubmissionRow>(
+    `
+    SELECT id, form_id, response_token, landing_id, submitted_at, last_event_id, last_event_type, amo_lead_id, amo_contact_id,
+      contact_match, contact_match_reason, lead_decision, response_kind, source_key, channel, last_payload
+    FROM typeform_submissions
+    WHERE id=$1
+  `,
+    [id]
+  );
+  return res.rows[0];
+}
+
+export type TypeformJobListRow = Omit<TypeformJobRow, "payload"> & {
+  triggered_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+};
+
+export async function listTypeformJobs(params: {
+  pool: pg.Pool;
+  responseToken?: string;
+  status?: TypeformJobStatus;
+  limit: number;
+  offset: number;
+}): Promise<TypeformJobListRow[]> {
+  const { pool, responseToken, status, limit, offset } = params;
+  const res = await pool.query<TypeformJobListRow>(
+    `
+    SELECT id, form_id, response_token, event_id, event_type, source_key, status, attempts, run_at, last_error, triggered_by, created_at,
+      updated_at
+    FROM typeform_jobs
+    WHERE ($1::text IS NULL OR response_token=$1) AND ($2::text IS NULL OR status=$2)
+    ORDER BY id DESC
+    LIMIT $3 OFFSET $4
+  `,
+    [responseToken ?? null, status ?? null, limit, offset]
+  );
+  return res.rows;
+}
+
+export async function requeueTypeformJob(params: {
+  pool: pg.Pool;
+  jobId: string;
+  triggeredBy: string;
+}): Promise<boolean> {
+  const { pool, jobId, triggeredBy } = params;
+  const res = await pool.query(
+    `
+    UPDATE typeform_jobs
+    SET status='pending', attempts=0, run_at=NOW(), last_error=NULL, triggered_by=$2, updated_at=NOW()
+    WHERE id=$1 AND status='dead'
+  `,
+    [jobId, triggeredBy]
+  );
+  return (res.rowCount ?? 0) > 0;
+}
+
+/**
+ * Inserts a job that is already claimed by the caller, so inline replays share the
+ * per-token exclusivity of the worker. Returns undefined when the token is busy.
+ */
+export async function startInlineTypeformJob(params: {
+  pool: pg.Pool;
+  submission: SubmissionRow;
+  triggeredBy: string;
+}): Promise<TypeformJobRow | undefined> {
+  const { pool, submission, triggeredBy } = params;
+  try {
+    const res = await pool.query<TypeformJobRow>(
+      `
+      INSERT INTO typeform_jobs (
+        form_id, response_token, event_type, payload, source_key, status, attempts, locked_at, locked_by, triggered_by
+      )
+      VALUES ($1, $2, $3, $4::jsonb, $5, 'processing', 1, NOW(), $6, $6)
+      RETURNING id, form_id, response_token, event_id, event_type, payload, source_key, status, attempts, run_at, last_error;
+    `,
+      [
+        submission.form_id,
+        submission.response_token,
+        submission.last_event_type,
+        JSON.stringify(submission.last_payload),
+        submission.source_key,
+        triggeredBy
+      ]
+    );
+    return res.rows[0];
+  } catch (e) {
+    if ((e as { code?: string }).code === "23505") return undefined;
+    throw e;
+  }
+}
+
+export type SubmissionReplayRow = {
+  id: string;
+  submission_id: string;
+  job_id: string | null;
+  triggered_by: string;
+  status: "succeeded" | "failed" | "skipped";
+  error: string | null;
+  amo_lead_id: string | null;
+  amo_contact_id: string | null;
+  created_at: Date;
+  finished_at: Date | null;
+};
+
+export async function recordSubmissionReplay(params: {
+  pool: pg.Pool;
+  submissionId: string;
+  jobId?: string;
+  triggeredBy: string;
+  status: SubmissionReplayRow["status"];
+  error?: string;
+  amoLeadId?: number;
+  amoContactId?: number;
+}): Promise<SubmissionReplayRow> {
+  const { pool, submissionId, jobId, triggeredBy, status, error, amoLeadId, amoContactId } = params;
+  const res = await pool.query<SubmissionReplayRow>(
+    `
+    INSERT INTO submission_replays (submission_id, job_id, triggered_by, status, error, amo_lead_id, amo_contact_id, finished_at)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())
+    RETURNING id, submission_id, job_id, triggered_by, status, error, amo_lead_id, amo_contact_id, created_at, finished_at;
+  `,
+    [submissionId, jobId ?? null, triggeredBy, status, error ?? null, amoLeadId ?? null, amoContactId ?? null]
+  );
+  return res.rows[0];
+}
+
+export async function listSubmissionReplays(pool: pg.Pool, submissionId: string): Promise<SubmissionReplayRow[]> {
+  const res = await pool.query<SubmissionReplayRow>(
+    `
+    SELECT id, submission_id, job_id, triggered_by, status, error, amo_lead_id, amo_contact_id, created_at, finished_at
+    FROM submission_replays
+    WHERE submission_id=$1
+    ORDER BY id DESC
+  `,
+    [submissionId]
+  );
+  return res.rows;
+}
+
+export type SyncSagaRow = {
+  id: string;
+  response_token: string;
+  job_id: string | null;
+  status: "open" | "done";
+  /** Step name to the time it completed. */
+  steps: Record<string, string>;
+  lead_id: string | null;
+  contact_id: string | null;
+  contact_match: { kind: string; reason: string } | null;
+  lead_decision: string | null;
+  /** Team member picked for the new lead, kept so a retry does not take another rotation turn. */
+  assignee: { userId: number; name?: string } | null;
+  created_at: Date;
+  updated_at: Date;
+  finished_at: Date | null;
+};
+
+export async function getOpenSyncSaga(pool: pg.Pool, responseToken: string): Promise<SyncSagaRow | undefined> {
+  const res = await pool.query<SyncSagaRow>(
+    `
+    SELECT id, response_token, job_id, status, steps, lead_id, contact_id, contact_match, lead_decision, assignee, created_at, updated_at,
+      finished_at
+    FROM amocrm_sync_sagas
+    WHERE response_token=$1 AND status='open'
+  `,
+    [responseToken]
+  );
+  return res.rows[0];
+}
+
+/**
+ * Marks `steps` as completed on the token's open saga, creating it on the first step.
+ * Entity ids are only ever filled in, never cleared.
+ */
+export async function saveSyncSagaSteps(params: {
+  pool: pg.Pool;
+  responseToken: string;
+  jobId?: string;
+  steps: string[];
+  leadId?: number;
+  contactId?: number;
+  contactMatch?: { kind: string; reason: string };
+  leadDecision?: string;
+  assignee?: { userId: number; name?: string };
+}): Promise<void> {
+  const { pool, responseToken, jobId, steps, leadId, contactId, contactMatch, leadDecision, assignee } = params;
+  await pool.query(
+    `
+    INSERT INTO amocrm_sync_sagas (response_token, job_id, steps, lead_id, contact_id, contact_match, lead_decision, assignee)
+    VALUES (
+      $1, $2,
+      (SELECT COALESCE(jsonb_object_agg(step, to_jsonb(NOW())), '{}'::jsonb) FROM unnest($3::text[]) AS step),
+      $4, $5, $6::jsonb, $7, $8::jsonb
+    )
+    ON CONFLICT (response_token) WHERE status='open'
+    DO UPDATE SET
+      job_id=COALESCE(EXCLUDED.job_id, amocrm_sync_sagas.job_id),
+      steps=amocrm_sync_sagas.steps || EXCLUDED.steps,
+      lead_id=COALESCE(amocrm_sync_sagas.lead_id, EXCLUDED.lead_id),
+      contact_id=COALESCE(amocrm_sync_sagas.contact_id, EXCLUDED.contact_id),
+      contact_match=COALESCE(amocrm_sync_sagas.contact_match, EXCLUDED.contact_match),
+      lead_decision=COALESCE(amocrm_sync_sagas.lead_decision, EXCLUDED.lead_decision),
+      assignee=COALESCE(amocrm_sync_sagas.assignee, EXCLUDED.assignee),
+      updated_at=NOW();
+  `,
+    [
+      responseToken,
+      jobId ?? null,
+      steps,
+      leadId ?? null,
+      contactId ?? null,
+      contactMatch ? JSON.stringify(contactMatch) : null,
+      leadDecision ?? null,
+      assignee ? JSON.stringify(assignee) : null
+    ]
+  );
+}
+
+export async function finishSyncSaga(pool: pg.Pool, responseToken: string): Promise<void> {
+  await pool.query(
+    "UPDATE amocrm_sync_sagas SET status='done', finished_at=NOW(), updated_at=NOW() WHERE response_token=$1 AND status='open'",
+    [responseToken]
+  );
+}
+
+export async function listSyncSagas(pool: pg.Pool, responseToken: string): Promise<SyncSagaRow[]> {
+  const res = await pool.query<SyncSagaRow>(
+    `
+    SELECT id, response_token, job_id, status, steps, lead_id, contact_id, contact_match, lead_decision, assignee, created_at, updated_at,
+      finished_at
+    FROM amocrm_sync_sagas
+    WHERE response_token=$1
+    ORDER BY id DESC
+    LIMIT 50
+  `,
+    [responseToken]
+  );
+  return res.rows;
+}
+
+export type AmoSchemaSnapshotRow = {
+  id: string;
+  leads: unknown;
+  contacts: unknown;
+  changes: string[];
+  fetched_at: Date;
+  checked_at: Date;
+};
+
+export async function getLatestAmoSchemaSnapshot(pool: pg.Pool): Promise<AmoSchemaSnapshotRow | undefined> {
+  const res = await pool.query<AmoSchemaSnapshotRow>(
+    `
+    SELECT id, leads, contacts, changes, fetched_at, checked_at
+    FROM amocrm_schema_snapshots
+    ORDER BY id DESC
+    LIMIT 1
+  `
+  );
+  return res.rows[0];
+}
+
+/** Stores a new snapshot when the schema changed, otherwise only bumps `checked_at` of the latest one. */
+export async function saveAmoSchemaSnapshot(params: {
+  pool: pg.Pool;
+  previousId?: string;
+  leads: unknown;
+  contacts: unknown;
+  changes: string[];
+}): Promise<void> {
+  const { pool, previousId, leads, contacts, changes } = params;
+  if (previousId && !changes.length) {
+    await pool.query("UPDATE amocrm_schema_snapshots SET checked_at=NOW() WHERE id=$1", [previousId]);
+    return;
+  }
+  await pool.query("INSERT INTO amocrm_schema_snapshots (leads, contacts, changes) VALUES ($1::jsonb, $2::jsonb, $3::jsonb)", [
+    JSON.stringify(leads),
+    JSON.stringify(contacts),
+    JSON.stringify(changes)
+  ]);
+}
+
+export type AttributionTouchRow = {
+  id: string;
+  response_token: string;
+  form_id: string;
+  channel: string;
+  amo_contact_id: string | null;
+  amo_lead_id: string | null;
+  contact_phone: string | null;
+  contact_email: string | null;
+  contact_telegram: string | null;
+  source: string;
+  medium: string;
+  utm_source: string | null;
+  utm_medium: string | null;
+  utm_campaign: string | null;
+  utm_content: string | null;
+  utm_term: string | null;
+  gclid: string | null;
+  yclid: string | null;
+  fbclid: string | null;
+  ym_uid: string | null;
+  referrer: string | null;
+  touched_at: Date;
+};
+
+const TOUCH_COLUMNS = `id, response_token, form_id, channel, amo_contact_id, amo_lead_id, contact_phone, contact_email, contact_telegram,
+    source, medium, utm_source, utm_medium, utm_campaign, utm_content, utm_term, gclid, yclid, fbclid, ym_uid, referrer, touched_at`;
+
+/** What identifies the family across submissions before amoCRM matched a contact: E.164 phone, lowercased email, "@handle" or Telegram id. */
+export type TouchContactKeys = { amoContactId?: number; phone?: string; email?: string; telegram?: string };
+
+/**
+ * One touch per submission: a later event of the same response replaces its values. Written
+ * before the amoCRM sync, with the contact's identity keys; `linkAttributionTouch` adds the
+ * amoCRM ids afterwards.
+ */
+export async function recordAttributionTouch(params: {
+  pool: pg.Pool;
+  responseToken: string;
+  formId: string;
+  channel: string;
+  contact: TouchContactKeys;
+  touch: Touch;
+  touchedAt: Date;
+}): Promise<AttributionTouchRow> {
+  const { pool, responseToken, formId, channel, contact, touch, touchedAt } = params;
+  const res = await pool.query<AttributionTouchRow>(
+    `
+    INSERT INTO attribution_touches (
+      response_token, form_id, channel, amo_contact_id, contact_phone, contact_email, contact_telegram, source, medium, utm_source,
+      utm_medium, utm_campaign, utm_content, utm_term, gclid, yclid, fbclid, ym_uid, referrer, touched_at
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)
+    ON CONFLICT (response_token)
+    DO UPDATE SET
+      form_id=EXCLUDED.form_id,
+      channel=EXCLUDED.channel,
+      amo_contact_id=COALESCE(attribution_touches.amo_contact_id, EXCLUDED.amo_contact_id),
+      contact_phone=COALESCE(EXCLUDED.contact_phone, attribution_touches.contact_phone),
+      contact_email=COALESCE(EXCLUDED.contact_email, attribution_touches.contact_email),
+      contact_telegram=COALESCE(EXCLUDED.contact_telegram, attribution_touches.contact_telegram),
+      source=EXCLUDED.source,
+      medium=EXCLUDED.medium,
+      utm_source=EXCLUDED.utm_source,
+      utm_medium=EXCLUDED.utm_medium,
+      utm_campaign=EXCLUDED.utm_campaign,
+      utm_content=EXCLUDED.utm_content,
+      utm_term=EXCLUDED.utm_term,
+      gclid=EXCLUDED.gclid,
+      yclid=EXCLUDED.yclid,
+      fbclid=EXCLUDED.fbclid,
+      ym_uid=EXCLUDED.ym_uid,
+      referrer=EXCLUDED.referrer,
+      touched_at=EXCLUDED.touched_at,
+      updated_at=NOW()
+    RETURNING ${TOUCH_COLUMNS}
+  `,
+    [
+      responseToken,
+      formId,
+      channel,
+      contact.amoContactId ?? null,
+      contact.phone ?? null,
+      contact.email ?? null,
+      contact.telegram ?? null,
+      touch.source,
+      touch.medium,
+      touch.utmSource ?? null,
+      touch.utmMedium ?? null,
+      touch.utmCampaign ?? null,
+      touch.utmContent ?? null,
+      touch.utmTerm ?? null,
+      touch.gclid ?? null,
+      touch.yclid ?? null,
+      touch.fbclid ?? null,
+      touch.ymUid ?? null,
+      touch.referrer ?? null,
+      touchedAt
+    ]
+  );
+  return res.rows[0];
+}
+
+/** Fills in the amoCRM ids of a touch once the sync created or matched them. */
+export async function linkAttributionTouch(params: {
+  pool: pg.Pool;
+  responseToken: string;
+  amoContactId?: number;
+  amoLeadId: number;
+}): Promise<void> {
+  const { pool, responseToken, amoContactId, amoLeadId } = params;
+  await pool.query(
+    `
+    UPDATE attribution_touches
+    SET amo_contact_id=COALESCE($2, amo_contact_id), amo_lead_id=$3, updated_at=NOW()
+    WHERE response_token=$1
+  `,
+    [responseToken, amoContactId ?? null, amoLeadId]
+  );
+}
+
+/** Earliest and latest touch of a contact across all of its submissions, matched by amoCRM id or any identity key. */
+export async function getContactTouchRange(
+  pool: pg.Pool,
+  contact: TouchContactKeys
+): Promise<{ first: AttributionTouchRow; last: AttributionTouchRow } | undefined> {
+  const { amoContactId, phone, email, telegram } = contact;
+  if (!amoContactId && !phone && !email && !telegram) return undefined;
+  const match = "(amo_contact_id=$1 OR contact_phone=$2 OR contact_email=$3 OR contact_telegram=$4)";
+  const res = await pool.query<AttributionTouchRow>(
+    `
+    (SELECT ${TOUCH_COLUMNS} FROM attribution_touches WHERE ${match} ORDER BY touched_at ASC, id ASC LIMIT 1)
+    UNION ALL
+    (SELECT ${TOUCH_COLUMNS} FROM attribution_touches WHERE ${match} ORDER BY touched_at DESC, id DESC LIMIT 1)
+  `,
+    [amoContactId ?? null, phone ?? null, email ?? null, telegram ?? null]
+  );
+  const [first, last] = res.rows;
+  return first && last ? { first, last } : undefined;
+}
+
+export type AttributionReportRow = {
+  source: string;
+  campaign: string | null;
+  leads: number;
+  submissions: number;
+};
+
+/**
+ * Leads and submissions per source and campaign for touches in [from, to). With "last" each
+ * submission counts for its own source; with "first" it counts for its contact's first
+ * touch, and submissions without a contact are left out.
+ */
+export async function getAttributionReport(params: {
+  pool: pg.Pool;
+  from: Date;
+  to: Date;
+  model: "first" | "last";
+}): Promise<AttributionReportRow[]> {
+  const { pool, from, to, model } = params;
+  const sql =
+    model === "last"
+      ? `
+    SELECT t.source, t.utm_campaign AS campaign,
+      COUNT(DISTINCT t.amo_lead_id)::int AS leads, COUNT(*)::int AS submissions
+    FROM attribution_touches t
+    WHERE t.touched_at >= $1 AND t.touched_at < $2
+    GROUP BY 1, 2
+    ORDER BY leads DESC, submissions DESC, 1, 2
+  `
+      : `
+    WITH firsts AS (
+      SELECT DISTINCT ON (amo_contact_id) amo_contact_id, source, utm_campaign
+      FROM attribution_touches
+      WHERE amo_contact_id IS NOT NULL
+      ORDER BY amo_contact_id, touched_at, id
+    )
+    SELECT f.source, f.utm_campaign AS campaign,
+      COUNT(DISTINCT t.amo_lead_id)::int AS leads, COUNT(*)::int AS submissions
+    FROM attribution_touches t
+    JOIN firsts f ON f.amo_contact_id=t.amo_contact_id
+    WHERE t.touched_at >= $1 AND t.touched_at < $2
+    GROUP BY 1, 2
+    ORDER BY leads DESC, submissions DESC, 1, 2
+  `;
+  const res = await pool.query<AttributionReportRow>(sql, [from, to]);
+  return res.rows;
+}
+
+export type ConversionTarget = "google_ads" | "yandex";
+
+export type OfflineConversionRow = {
+  id: string;
+  event_key: string;
+  amo_lead_id: string;
+  pipeline_id: string | null;
+  status_id: string;
+  gclid: string | null;
+  yclid: string | null;
+  ym_uid: string | null;
+  google_conversion_name: string | null;
+  yandex_target: string | null;
+  /** NUMERIC comes back as a string. */
+  value: string | null;
+  currency: string | null;
+  converted_at: Date;
+  google_export_id: string | null;
+  yandex_export_id: string | null;
+  created_at: Date;
+};
+
+const CONVERSION_COLUMNS = `id, event_key, amo_lead_id, pipeline_id, status_id, gclid, yclid, ym_uid, google_conversion_name,
+    yandex_target, value, currency, converted_at, google_export_id, yandex_export_id, created_at`;
+
+/**
+ * Records that a lead reached a conversion status, with the lead's latest click ids from its
+ * attribution touches. Each event counts once per lead: returns undefined when it was
+ * already recorded, e.g. after the lead went back and forth between statuses.
+ */
+export async function recordOfflineConversion(params: {
+  pool: pg.Pool;
+  eventKey: string;
+  amoLeadId: number;
+  pipelineId?: number;
+  statusId: number;
+  googleConversionName?: string;
+  yandexTarget?: string;
+  value?: number;
+  currency?: string;
+  convertedAt: Date;
+}): Promise<OfflineConversionRow | undefined> {
+  const { pool, eventKey, amoLeadId, pipelineId, statusId, googleConversionName, yandexTarget, value, currency, convertedAt } = params;
+  const latest = (column: string) =>
+    `(SELECT ${column} FROM attribution_touches WHERE amo_lead_id=$2 AND ${column} IS NOT NULL ORDER BY touched_at DESC, id DESC LIMIT 1)`;
+  const res = await pool.query<OfflineConversionRow>(
+    `
+    INSERT INTO offline_conversions (
+      event_key, amo_lead_id, pipeline_id, status_id, gclid, yclid, ym_uid, google_conversion_name, yandex_target, value, currency,
+      converted_at
+    )
+    VALUES ($1, $2, $3, $4, ${latest("gclid")}, ${latest("yclid")}, ${latest("ym_uid")}, $5, $6, $7, $8, $9)
+    ON CONFLICT (event_key, amo_lead_id) DO NOTHING
+    RETURNING ${CONVERSION_COLUMNS}
+  `,
+    [
+      eventKey,
+      amoLeadId,
+      pipelineId ?? null,
+      statusId,
+      googleConversionName ?? null,
+      yandexTarget ?? null,
+      value ?? null,
+      currency ?? null,
+      convertedAt
+    ]
+  );
+  return res.rows[0];
+}
+
+export type ConversionExportRow = {
+  id: string;
+  target: ConversionTarget;
+  row_count: number;
+  created_by: string;
+  created_at: Date;
+};
+
+/**
+ * Claims every conversion not yet sent to `target` for a new export and stores the file
+ * `render` makes of them, in one transaction: a failed render or a crash leaves the
+ * conversions unclaimed. Concurrent exports never share a conversion because the claiming
+ * UPDATE locks the rows. Returns undefined, without keeping an export, when there is nothing new.
+ */
+export async function createConversionExport(params: {
+  pool: pg.Pool;
+  target: ConversionTarget;
+  createdBy: string;
+  render: (rows: OfflineConversionRow[]) => string;
+}): Promise<(ConversionExportRow & { content: string }) | undefined> {
+  const { pool, target, createdBy, render } = params;
+  const [exportColumn, ready] =
+    target === "google_ads"
+      ? ["google_export_id", "gclid IS NOT NULL AND google_conversion_name IS NOT NULL"]
+      : ["yandex_export_id", "(ym_uid IS NOT NULL OR yclid IS NOT NULL) AND yandex_target IS NOT NULL"];
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const created = await client.query<{ id: string }>(
+      "INSERT INTO conversion_exports (target, created_by) VALUES ($1, $2) RETURNING id",
+      [target, createdBy]
+    );
+    const exportId = created.rows[0].id;
+    const claimed = await client.query<OfflineConversionRow>(
+      `
+      UPDATE offline_conversions SET ${exportColumn}=$1
+      WHERE ${exportColumn} IS NULL AND ${ready}
+      RETURNING ${CONVERSION_COLUMNS}
+    `,
+      [exportId]
+    );
+    if (!claimed.rows.length) {
+      await client.query("ROLLBACK");
+      return undefined;
+    }
+
+    const rows = claimed.rows.sort((a, b) => a.converted_at.getTime() - b.converted_at.getTime() || Number(a.id) - Number(b.id));
+    const content = render(rows);
+    const res = await client.query<ConversionExportRow & { content: string }>(
+      `
+      UPDATE conversion_exports SET content=$2, row_count=$3
+      WHERE id=$1
+      RETURNING id, target, row_count, content, created_by, created_at
+    `,
+      [exportId, content, rows.length]
+    );
+    await client.query("COMMIT");
+    return res.rows[0];
+  } catch (e) {
+    await client.query("ROLLBACK");
+    throw e;
+  } finally {
+    client.release();
+  }
+}
+
+export async function listConversionExports(params: {
+  pool: pg.Pool;
+  target?: ConversionTarget;
+  limit: number;
+  offset: number;
+}): Promise<ConversionExportRow[]> {
+  const { pool, target, limit, offset } = params;
+  const res = await pool.query<ConversionExportRow>(
+    `
+    SELECT id, target, row_count, created_by, created_at
+    FROM conversion_exports
+    WHERE ($1::text IS NULL OR target=$1)
+    ORDER BY id DESC
+    LIMIT $2 OFFSET $3
+  `,
+    [target ?? null, limit, offset]
+  );
+  return res.rows;
+}
+
+export async function getConversionExport(
+  pool: pg.Pool,
+  id: string
+): Promise<(ConversionExportRow & { content: string }) | undefined> {
+  const res = await pool.query<ConversionExportRow & { content: string }>(
+    "SELECT id, target, row_count, content, created_by, created_at FROM conversion_exports WHERE id=$1",
+    [id]
+  );
+  return res.rows[0];
+}
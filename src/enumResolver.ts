@@ -0,0 +1,82 @@
+import type { AmoSchema } from "./amoSchema";
+import type { EnumOption, EnumResolution } from "./mappingConfig";
+
+/** Enum options of every select/multiselect field, by field id (ids are unique across entities). */
+export type EnumCatalog = Map<number, Array<{ id: number; value: string }>>;
+
+export type EnumMatch = {
+  enumId: number;
+  matchedBy: "option" | "alias" | "label" | "fallback";
+};
+
+export function enumCatalogFromSchema(schema: AmoSchema | undefined): EnumCatalog {
+  const catalog: EnumCatalog = new Map();
+  for (const field of [...(schema?.leads ?? []), ...(schema?.contacts ?? [])]) {
+    if (field.enums?.length) catalog.set(field.id, field.enums.map((e) => ({ id: e.id, value: e.value })));
+  }
+  return catalog;
+}
+
+/**
+ * Case-insensitive comparison key for labels in Russian, Uzbek and English: folds case
+ * and "ё", unifies the apostrophes used in Uzbek Latin (o‘, g‘) and ignores extra
+ * whitespace and trailing punctuation.
+ */
+export function normalizeLabel(label: string): string {
+  return label
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/ё/g, "е")
+    .replace(/[ʻʼ‘’`´]/g, "'")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/[.,:;!?]+$/, "");
+}
+
+export function matchLabel<T extends Pick<EnumOption, "label" | "match">>(options: T[], label: string): T | undefined {
+  const s = normalizeLabel(label);
+  for (const o of options) {
+    const want = normalizeLabel(o.label);
+    const match = o.match ?? "exact";
+    if (match === "exact" && s === want) return o;
+    if (match === "prefix" && s.startsWith(want)) return o;
+    if (match === "contains" && s.includes(want)) return o;
+  }
+  return undefined;
+}
+
+function enumIdByLabel(catalog: EnumCatalog, fieldId: number, label: string): number | undefined {
+  const want = normalizeLabel(label);
+  return catalog.get(fieldId)?.find((e) => normalizeLabel(e.value) === want)?.id;
+}
+
+function resolveTarget(catalog: EnumCatalog, fieldId: number, target: string | number): number | undefined {
+  return typeof target === "number" ? target : enumIdByLabel(catalog, fieldId, target);
+}
+
+/**
+ * Resolves a Typeform choice label to an amoCRM enum id: explicit `options` first, then
+ * the alias table, then the field's own option labels, and finally `fallback`.
+ */
+export function resolveEnum(params: {
+  label: string;
+  fieldId: number;
+  resolution: EnumResolution;
+  catalog: EnumCatalog;
+}): EnumMatch | undefined {
+  const { label, fieldId, resolution, catalog } = params;
+
+  const option = resolution.options ? matchLabel(resolution.options, label) : undefined;
+  if (option) return { enumId: option.enumId, matchedBy: "option" };
+
+  const key = normalizeLabel(label);
+  const alias = Object.entries(resolution.aliases ?? {}).find(([from]) => normalizeLabel(from) === key);
+  const aliasId = alias ? resolveTarget(catalog, fieldId, alias[1]) : undefined;
+  if (aliasId) return { enumId: aliasId, matchedBy: "alias" };
+
+  const byLabel = enumIdByLabel(catalog, fieldId, label);
+  if (byLabel) return { enumId: byLabel, matchedBy: "label" };
+
+  const fallbackId = resolution.fallback !== undefined ? resolveTarget(catalog, fieldId, resolution.fallback) : undefined;
+  return fallbackId ? { enumId: fallbackId, matchedBy: "fallback" } : undefined;
+}
@@ -0,0 +1,67 @@
+export type TokenBucket = {
+  take: () => Promise<void>;
+};
+
+/**
+ * Classic token bucket: `ratePerSecond` tokens refill continuously up to `burst`, and
+ * `take` waits until one is available. Waiters are served in FIFO order.
+ */
+export function createTokenBucket(params: { ratePerSecond: number; burst: number }): TokenBucket {
+  const { ratePerSecond, burst } = params;
+  let tokens = burst;
+  let updatedAt = Date.now();
+  let queue: Promise<void> = Promise.resolve();
+
+  function refill() {
+    const now = Date.now();
+    tokens = Math.min(burst, tokens + ((now - updatedAt) / 1000) * ratePerSecond);
+    updatedAt = now;
+  }
+
+  async function takeOne(): Promise<void> {
+    refill();
+    while (tokens < 1) {
+      await sleep(Math.ceil(((1 - tokens) / ratePerSecond) * 1000));
+      refill();
+    }
+    tokens -= 1;
+  }
+
+  return {
+    take: () => {
+      const next = queue.then(takeOne);
+      queue = next.catch(() => undefined);
+      return next;
+    }
+  };
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export class RequestTimeoutError extends Error {
+  constructor(url: string, timeoutMs: number) {
+    super(`Request to ${url} timed out after ${timeoutMs}ms`);
+  }
+}
+
+export async function fetchWithTimeout(input: URL, init: RequestInit, timeoutMs: number): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(input, { ...init, signal: controller.signal });
+  } catch (e) {
+    if (controller.signal.aborted) throw new RequestTimeoutError(`${input.origin}${input.pathname}`, timeoutMs);
+    throw e;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** Exponential backoff with full jitter; a Retry-After header (seconds) takes precedence. */
+export function retryDelayMs(attempt: number, retryAfter: string | null, baseMs = 500, maxMs = 20_000): number {
+  const seconds = retryAfter ? Number.parseFloat(retryAfter) : Number.NaN;
+  if (Number.isFinite(seconds) && seconds >= 0) return Math.min(seconds * 1000, maxMs);
+  return Math.round(Math.random() * Math.min(maxMs, baseMs * 2 ** attempt));
+}
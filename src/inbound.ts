@@ -0,0 +1,237 @@
+import crypto from "node:crypto";
+import express from "express";
+import type pg from "pg";
+import type { AppConfig } from "./config";
+import { typeformIsSignatureValid } from "./config";
+import { findApiKeyName } from "./admin";
+import { enqueueTypeformJob } from "./db";
+import { INBOUND_FORM_ID, MAX_INBOUND_CHILDREN } from "./mappingConfig";
+import type { TypeformAnswer, TypeformWebhookPayload } from "./typeform";
+import type { Issues } from "./validation";
+import { isNonEmptyString, isObject } from "./validation";
+
+const UTM_KEYS = ["source", "medium", "campaign", "content", "term"] as const;
+
+/**
+ * Normalized lead posted to `POST /webhooks/leads` by landing pages, Tilda forms and the
+ * Telegram bot. Example:
+ *
+ *   {
+ *     "version": 1,
+ *     "channel": "tilda",
+ *     "externalId": "tranid-1234567",
+ *     "submittedAt": "2025-03-01T10:15:00+05:00",
+ *     "contact": { "name": "Dilnoza", "phone": "+998 90 123 45 67", "telegramUsername": "dilnoza_t", "language": "uz" },
+ *     "children": [{ "name": "Amir", "birthDate": "2019-05-14", "program": "PYP" }],
+ *     "program": "PYP",
+ *     "campus": "Yashnobod",
+ *     "utm": { "source": "google", "medium": "cpc", "campaign": "spring" },
+ *     "tracking": { "gclid": "Cj0KCQ..." },
+ *     "notes": "Wants a tour on Saturday"
+ *   }
+ *
+ * `channel` plus `externalId` identify the submission: posting the same pair again updates
+ * the same lead instead of creating a new one. The lead goes through the same queue,
+ * dedup, mapping, routing and amoCRM sync as Typeform responses, under form id "inbound"
+ * with fixed answer refs (`name`, `phone`, `email`, `program`, `campus`, `notes`,
+ * `child_<n>_name`, `child_<n>_dob`, `child_<n>_program`) and the UTM, tracking, Telegram
+ * (`tg_username`, `tg_id`) and language (`lang`) values as hidden fields, so mapping and
+ * routing documents can address them like any form.
+ */
+export type InboundLead = {
+  version: 1;
+  channel: string;
+  externalId: string;
+  submittedAt?: string;
+  contact: { name: string; phone?: string; email?: string; telegramUsername?: string; telegramId?: string; language?: string };
+  children?: Array<{ name?: string; birthDate?: string; program?: string }>;
+  program?: string;
+  campus?: string;
+  utm?: Partial<Record<(typeof UTM_KEYS)[number], string>>;
+  /** Other tracking values (gclid, yclid, fbclid, referrer, _ym_uid, ...), stored as hidden fields as is. */
+  tracking?: Record<string, string>;
+  notes?: string;
+};
+
+function checkOptionalString(path: string, v: unknown, issues: Issues) {
+  if (v !== undefined && !isNonEmptyString(v)) issues.push(`${path}: must be a non-empty string`);
+}
+
+function checkStringRecord(path: string, v: unknown, issues: Issues, allowedKeys?: readonly string[]) {
+  if (v === undefined) return;
+  if (!isObject(v)) return issues.push(`${path}: must be an object`);
+  for (const [k, value] of Object.entries(v)) {
+    if (allowedKeys && !allowedKeys.includes(k)) issues.push(`${path}.${k}: unknown key, expected one of ${allowedKeys.join(", ")}`);
+    else if (typeof value !== "string") issues.push(`${path}.${k}: must be a string`);
+  }
+}
+
+export function validateInboundLead(v: unknown): Issues {
+  const issues: Issues = [];
+  if (!isObject(v)) return ["lead: must be a JSON object"];
+  if (v.version !== 1) issues.push(`version: unsupported version ${JSON.stringify(v.version)}, expected 1`);
+  if (typeof v.channel !== "string" || !/^[a-z0-9][a-z0-9_-]*$/.test(v.channel)) {
+    issues.push(`channel: must be lowercase letters, digits, "-" or "_"`);
+  } else if (v.channel === "typeform") {
+    issues.push(`channel: "typeform" is reserved for Typeform webhooks`);
+  }
+  if (!isNonEmptyString(v.externalId) || v.externalId.length > 200) issues.push("externalId: must be a non-empty string of up to 200 chars");
+  if (v.submittedAt !== undefined && (typeof v.submittedAt !== "string" || Number.isNaN(Date.parse(v.submittedAt)))) {
+    issues.push("submittedAt: must be an ISO date");
+  }
+
+  if (!isObject(v.contact)) {
+    issues.push("contact: must be an object");
+  } else {
+    if (!isNonEmptyString(v.contact.name)) issues.push("contact.name: must be a non-empty string");
+    checkOptionalString("contact.phone", v.contact.phone, issues);
+    checkOptionalString("contact.email", v.contact.email, issues);
+    checkOptionalString("contact.telegramUsername", v.contact.telegramUsername, issues);
+    if (v.contact.telegramId !== undefined && (typeof v.contact.telegramId !== "string" || !/^\d+$/.test(v.contact.telegramId))) {
+      issues.push("contact.telegramId: must be a string of digits");
+    }
+    checkOptionalString("contact.language", v.contact.language, issues);
+    if (!v.contact.phone && !v.contact.email && !v.contact.telegramUsername && !v.contact.telegramId) {
+      issues.push("contact: must have a phone, an email or a Telegram username or id");
+    }
+  }
+
+  if (v.children !== undefined) {
+    if (!Array.isArray(v.children) || v.children.length > MAX_INBOUND_CHILDREN) {
+      issues.push(`children: must be an array of up to ${MAX_INBOUND_CHILDREN} items`);
+    } else {
+      v.children.forEach((c, i) => {
+        const p = `children[${i}]`;
+        if (!isObject(c)) return issues.push(`${p}: must be an object`);
+        checkOptionalString(`${p}.name`, c.name, issues);
+        checkOptionalString(`${p}.program`, c.program, issues);
+        if (c.birthDate !== undefined && (typeof c.birthDate !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(c.birthDate))) {
+          issues.push(`${p}.birthDate: must be a YYYY-MM-DD date`);
+        }
+      });
+    }
+  }
+  checkOptionalString("program", v.program, issues);
+  checkOptionalString("campus", v.campus, issues);
+  checkOptionalString("notes", v.notes, issues);
+  checkStringRecord("utm", v.utm, issues, UTM_KEYS);
+  checkStringRecord("tracking", v.tracking, issues);
+  return issues;
+}
+
+export function inboundResponseToken(lead: Pick<InboundLead, "channel" | "externalId">): string {
+  return `${lead.channel}:${lead.externalId}`;
+}
+
+/** Turns a lead into the payload shape the sync pipeline works with; see `InboundLead`. */
+export function inboundLeadToPayload(lead: InboundLead, eventId: string): TypeformWebhookPayload {
+  const answers: TypeformAnswer[] = [];
+  const fields: Array<{ id: string; ref: string; title: string }> = [];
+  const add = (ref: string, title: string, answer: Omit<TypeformAnswer, "field">) => {
+    answers.push({ ...answer, field: { id: ref, ref } });
+    fields.push({ id: ref, ref, title });
+  };
+
+  // The contact name goes first: the first text answer becomes the contact name.
+  add("name", "Name", { type: "text", text: lead.contact.name.trim() });
+  if (lead.contact.phone) add("phone", "Phone", { type: "phone_number", phone_number: lead.contact.phone.trim() });
+  if (lead.contact.email) add("email", "Email", { type: "email", email: lead.contact.email.trim() });
+  if (lead.program) add("program", "Program", { type: "choice", choice: { label: lead.program.trim() } });
+  if (lead.campus) add("campus", "Campus", { type: "choice", choice: { label: lead.campus.trim() } });
+  (lead.children ?? []).forEach((child, i) => {
+    const n = i + 1;
+    if (child.name) add(`child_${n}_name`, `Child ${n} name`, { type: "text", text: child.name.trim() });
+    if (child.birthDate) add(`child_${n}_dob`, `Child ${n} date of birth`, { type: "date", date: child.birthDate });
+    if (child.program) add(`child_${n}_program`, `Child ${n} program`, { type: "choice", choice: { label: child.program.trim() } });
+  });
+  if (lead.notes) add("notes", "Notes", { type: "text", text: lead.notes.trim() });
+
+  const hidden: Record<string, string> = { ...lead.tracking, channel: lead.channel };
+  if (lead.contact.telegramUsername) hidden.tg_username = lead.contact.telegramUsername;
+  if (lead.contact.telegramId) hidden.tg_id = lead.contact.telegramId;
+  if (lead.contact.language) hidden.lang = lead.contact.language;
+  for (const key of UTM_KEYS) {
+    const value = lead.utm?.[key];
+    if (value) hidden[`utm_${key}`] = value;
+  }
+
+  return {
+    event_id: eventId,
+    event_type: "form_response",
+    form_response: {
+      form_id: INBOUND_FORM_ID,
+      token: inboundResponseToken(lead),
+      submitted_at: lead.submittedAt ?? new Date().toISOString(),
+      hidden,
+      definition: { fields },
+      answers
+    }
+  };
+}
+
+/**
+ * `POST /webhooks/leads`: validates a normalized lead and queues it for the same sync as
+ * Typeform responses. Authenticated by the HMAC signature or an inbound API key.
+ */
+export function createInboundRouter(params: { pool: pg.Pool; config: AppConfig["inbound"] }): express.Router {
+  const { pool, config } = params;
+  const router = express.Router();
+
+  router.post("/", express.raw({ type: "*/*", limit: "200kb" }), async (req, res) => {
+    try {
+      const raw = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+      const signature = req.header("X-Signature") ?? undefined;
+      const signedOk =
+        !!config.webhookSecret && typeformIsSignatureValid({ secret: config.webhookSecret, rawBody: raw, signatureHeader: signature });
+      const keyName = signedOk ? undefined : findApiKeyName(config.apiKeys, req.header("authorization"));
+      if (!signedOk && !keyName) {
+        console.log(JSON.stringify({ msg: "inbound_lead_rejected", reason: signature ? "invalid_signature" : "unauthorized" }));
+        return res.status(401).json({ ok: false, error: "Unauthorized" });
+      }
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(raw.toString("utf8"));
+      } catch {
+        console.log(JSON.stringify({ msg: "inbound_lead_rejected", reason: "invalid_json" }));
+        return res.status(400).json({ ok: false, error: "Invalid JSON" });
+      }
+      const issues = validateInboundLead(parsed);
+      if (issues.length) {
+        console.log(JSON.stringify({ msg: "inbound_lead_rejected", reason: "invalid_lead", issues }));
+        return res.status(400).json({ ok: false, error: "Invalid lead", issues });
+      }
+
+      const lead = parsed as InboundLead;
+      // Identical re-posts share the event id and are dropped by the queue's event dedup.
+      const eventId = `inbound:${crypto.createHash("sha256").update(raw).digest("hex")}`;
+      const payload = inboundLeadToPayload(lead, eventId);
+      const { jobId, duplicate } = await enqueueTypeformJob({
+        pool,
+        formId: INBOUND_FORM_ID,
+        responseToken: payload.form_response.token,
+        eventId,
+        eventType: payload.event_type,
+        payload
+      });
+
+      console.log(
+        JSON.stringify({
+          msg: duplicate ? "inbound_lead_duplicate" : "inbound_lead_queued",
+          channel: lead.channel,
+          external_id: lead.externalId,
+          token: payload.form_response.token,
+          auth: signedOk ? "signature" : `api_key:${keyName}`,
+          job_id: jobId
+        })
+      );
+      return res.status(200).json({ ok: true, queued: !duplicate, jobId });
+    } catch (e) {
+      const message = e instanceof Error ? e.message : "Unknown error";
+      console.error(JSON.stringify({ msg: "inbound_lead_error", error: message }));
+      return res.status(500).json({ ok: false, error: message });
+    }
+  });
+
+  return router;
+}
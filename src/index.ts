@@ -1,11 +1,23 @@
 import express from "express";
-import type { Request } from "express";
-import { createDb, getLatestSubmissionByLandingId, getSubmissionByToken, upsertSubmission } from "./db";
-import { getConfig, typeformIsSignatureValid } from "./config";
+import type { Request, Response } from "express";
+import { createDb, enqueueTypeformJob } from "./db";
+import { getConfig } from "./config";
 import { createAmoClient } from "./amocrm";
 import type { TypeformWebhookPayload } from "./typeform";
-import { extractContactBits, stringifyAnswers } from "./typeform";
-import { buildLeadCustomFields } from "./mapping";
+import { typeformEventKind } from "./typeform";
+import { syncTypeformPayload } from "./sync";
+import { startTypeformWorker } from "./worker";
+import { createAdminRouter } from "./admin";
+import { createOAuthRouter } from "./oauth";
+import { createInboundRouter } from "./inbound";
+import { loadMappingDocument } from "./mappingConfig";
+import { loadRoutingDocument } from "./routing";
+import type { AmoSchema } from "./amoSchema";
+import { checkAmoSchema, loadCachedAmoSchema } from "./amoSchema";
+import { enumCatalogFromSchema } from "./enumResolver";
+import type { TypeformSource, WebhookSecret } from "./sources";
+import { loadSourcesDocument, matchWebhookSecret } from "./sources";
+import { createAmoWebhookRouter, loadConversionsDocument } from "./conversions";
 
 function getRawBody(req: Request): Buffer {
   const body = req.body;
@@ -15,16 +27,97 @@ function getRawBody(req: Request): Buffer {
 
 async function main() {
   const config = getConfig();
+  const mapping = loadMappingDocument({ path: config.mapping.documentPath, legacyFieldMap: config.mapping.legacyFieldMap });
+  const routing = loadRoutingDocument(config.routing.documentPath);
+  const sources = loadSourcesDocument(config.typeform.sourcesPath);
+  const conversions = loadConversionsDocument(config.conversions.documentPath);
+  const sourceMappings = Object.fromEntries(
+    sources.filter((s) => s.mappingPath).map((s) => [s.key, loadMappingDocument({ path: s.mappingPath })])
+  );
   const db = await createDb(config.databaseUrl);
-  const amo = createAmoClient(config.amocrm);
+  const amo = createAmoClient({ ...config.amocrm, phoneDefaultCountryCode: config.phone.defaultCountryCode });
+
+  let schema: AmoSchema | undefined;
+  if (config.mapping.schemaCheck === "off") {
+    schema = await loadCachedAmoSchema(db.pool);
+  } else {
+    const report = await checkAmoSchema({ pool: db.pool, amo, mapping, sourceMappings, routing, attribution: config.attribution });
+    schema = report.schema;
+    if (report.error) {
+      console.warn(JSON.stringify({ msg: "amocrm_schema_fetch_failed", fallback: report.source, error: report.error }));
+    }
+    if (report.changes.length) console.warn(JSON.stringify({ msg: "amocrm_schema_changed", changes: report.changes }));
+    if (report.issues.length) {
+      console.error(JSON.stringify({ msg: "amocrm_schema_mismatch", source: report.source, issues: report.issues }));
+      if (config.mapping.schemaCheck === "fail") {
+        throw new Error(`Mapping does not match amoCRM custom fields:\n  - ${report.issues.join("\n  - ")}`);
+      }
+    }
+  }
+
+  const syncContext = {
+    pool: db.pool,
+    amo,
+    mapping,
+    enums: enumCatalogFromSchema(schema),
+    routing,
+    phoneDefaultCountryCode: config.phone.defaultCountryCode,
+    partialResponses: config.typeform.partialResponses,
+    followUpTasks: config.amocrm.followUpTasks,
+    workingHours: config.workingHours,
+    noteLocale: config.notes.locale,
+    attribution: config.attribution
+  };
+  const sourceContexts = new Map(
+    sources.map((s) => [
+      s.key,
+      {
+        ...syncContext,
+        mapping: sourceMappings[s.key] ?? mapping,
+        source: { key: s.key, pipelineId: s.pipelineId, statusId: s.statusId }
+      }
+    ])
+  );
+  const sync = (
+    payload: TypeformWebhookPayload,
+    options: { jobId?: string; skipEventDedupe?: boolean; sourceKey?: string } = {}
+  ) => {
+    const { sourceKey, ...rest } = options;
+    const context = sourceKey ? sourceContexts.get(sourceKey) : syncContext;
+    if (!context) throw new Error(`Unknown webhook source "${sourceKey}"; was it removed from ${config.typeform.sourcesPath}?`);
+    return syncTypeformPayload({ ...context, payload, ...rest });
+  };
+
+  // The original endpoint keeps working with the env secrets and no source key.
+  const legacySecrets: WebhookSecret[] = [
+    ...(config.typeform.webhookSecret ? [{ value: config.typeform.webhookSecret, label: "TYPEFORM_WEBHOOK_SECRET" }] : []),
+    ...(config.typeform.previousWebhookSecret ? [{ ...config.typeform.previousWebhookSecret, label: "TYPEFORM_WEBHOOK_SECRET_PREVIOUS" }] : [])
+  ];
 
   const app = express();
 
-  app.get("/health", (_req, res) => {
-    res.status(200).json({ ok: true });
+  app.get("/health", async (_req, res) => {
+    try {
+      const auth = await amo.getAuthStatus(db.pool);
+      const degraded = !auth.connected || auth.expired === true || !!auth.lastRefreshError;
+      // Public endpoint: token details and amoCRM error bodies stay behind /oauth/amocrm/status.
+      res.status(200).json({
+        ok: true,
+        amocrm: { status: degraded ? "degraded" : "ok", lastRefreshErrorAt: auth.lastRefreshError?.at }
+      });
+    } catch (e) {
+      const message = e instanceof Error ? e.message : "Unknown error";
+      res.status(503).json({ ok: false, error: message });
+    }
   });
 
-  app.post("/webhooks/typeform", express.raw({ type: "*/*", limit: "2mb" }), async (req, res) => {
+  app.use("/oauth", createOAuthRouter({ pool: db.pool, amo, adminConfig: config.admin }));
+  app.use(
+    "/admin",
+    createAdminRouter({ pool: db.pool, config: config.admin, staleLockMs: config.worker.staleLockMs, conversions, sync })
+  );
+
+  async function handleTypeformWebhook(req: Request, res: Response, source: Pick<TypeformSource, "secrets" | "formIds"> & { key?: string }) {
     try {
       const signaturePresent = !!req.header("Typeform-Signature");
       const raw = getRawBody(req);
@@ -34,16 +127,20 @@ async function main() {
           content_type: req.header("content-type"),
           content_length: req.header("content-length"),
           raw_bytes: raw.byteLength,
-          signature_present: signaturePresent
+          signature_present: signaturePresent,
+          source: source.key
         })
       );
-      if (config.typeform.webhookSecret) {
+      // Only the legacy endpoint may run without a secret; configured sources always have one.
+      let secretLabel: string | undefined;
+      if (source.secrets.length) {
         const sig = req.header("Typeform-Signature") ?? undefined;
-        const ok = typeformIsSignatureValid({ secret: config.typeform.webhookSecret, rawBody: raw, signatureHeader: sig });
-        if (!ok) {
-          console.log(JSON.stringify({ msg: "typeform_webhook_rejected", reason: "invalid_signature" }));
+        const secret = matchWebhookSecret({ secrets: source.secrets, rawBody: raw, signatureHeader: sig });
+        if (!secret) {
+          console.log(JSON.stringify({ msg: "typeform_webhook_rejected", reason: "invalid_signature", source: source.key }));
           return res.status(401).json({ ok: false, error: "Invalid signature" });
         }
+        secretLabel = secret.label;
       }
 
       let payload: TypeformWebhookPayload;
@@ -66,6 +163,10 @@ async function main() {
         );
         return res.status(400).json({ ok: false, error: "Invalid payload" });
       }
+      if (source.formIds && !source.formIds.includes(formId)) {
+        console.log(JSON.stringify({ msg: "typeform_webhook_rejected", reason: "form_not_allowed", source: source.key, form_id: formId }));
+        return res.status(403).json({ ok: false, error: "Form not allowed on this endpoint" });
+      }
 
       console.log(
         JSON.stringify({
@@ -75,82 +176,96 @@ async function main() {
           form_id: formId,
           token: responseToken,
           landing_id: payload.form_response?.landing_id,
-          signature_present: signaturePresent
+          signature_present: signaturePresent,
+          source: source.key,
+          secret: secretLabel
         })
       );
 
-      const existingByToken = await getSubmissionByToken(db.pool, responseToken);
-      const landingId = payload.form_response.landing_id;
-      const existing =
-        existingByToken ??
-        (landingId ? await getLatestSubmissionByLandingId({ pool: db.pool, formId, landingId }) : undefined);
-
-      if (existing && payload.event_id && existing.last_event_id === payload.event_id) {
-        console.log(
-          JSON.stringify({
-            msg: "typeform_webhook_deduped",
-            event_id: payload.event_id,
-            form_id: formId,
-            token: responseToken,
-            amo_lead_id: existing.amo_lead_id
-          })
-        );
-        return res.status(200).json({ ok: true, leadId: existing.amo_lead_id ? Number(existing.amo_lead_id) : undefined });
-      }
-
-      const typeformSummary = stringifyAnswers(payload);
-      const contact = extractContactBits(payload);
-      const leadCustomFields = buildLeadCustomFields(payload);
-
-      const { leadId, contactId } = await amo.createOrUpdateByTypeform({
-        pool: db.pool,
-        existingLeadId: existing?.amo_lead_id ? Number(existing.amo_lead_id) : undefined,
-        existingContactId: existing?.amo_contact_id ? Number(existing.amo_contact_id) : undefined,
-        typeformSummary,
-        leadCustomFields,
-        contact
-      });
-
-      await upsertSubmission({
+      // Unknown event types (and partial responses, unless enabled) are stored for the record only.
+      const kind = typeformEventKind(payload.event_type);
+      const ignored = kind === "unknown" || (kind === "partial" && config.typeform.partialResponses.mode === "ignore");
+      const { jobId, duplicate } = await enqueueTypeformJob({
         pool: db.pool,
         formId,
         responseToken,
-        landingId,
-        submittedAt: payload.form_response.submitted_at,
-        lastEventId: payload.event_id,
-        lastEventType: payload.event_type,
-        amoLeadId: leadId,
-        amoContactId: contactId,
-        lastPayload: payload
+        eventId: payload.event_id,
+        eventType: payload.event_type,
+        payload,
+        sourceKey: source.key,
+        ignored
       });
 
       console.log(
         JSON.stringify({
-          msg: "typeform_webhook_processed",
+          msg: duplicate ? "typeform_webhook_duplicate_event" : ignored ? "typeform_webhook_ignored" : "typeform_webhook_queued",
           event_id: payload.event_id,
+          event_type: payload.event_type,
           form_id: formId,
           token: responseToken,
-          amo_lead_id: leadId,
-          amo_contact_id: contactId
+          source: source.key,
+          job_id: jobId
         })
       );
-      return res.status(200).json({ ok: true, leadId, contactId });
+      return res.status(200).json({ ok: true, queued: !duplicate && !ignored, ...(ignored ? { ignored: true } : {}), jobId });
     } catch (e) {
       const message = e instanceof Error ? e.message : "Unknown error";
       console.error(
         JSON.stringify({
           msg: "typeform_webhook_error",
           error: message,
-          signature_present: !!req.header("Typeform-Signature")
+          signature_present: !!req.header("Typeform-Signature"),
+          source: source.key
         })
       );
       return res.status(500).json({ ok: false, error: message });
     }
+  }
+
+  app.use("/webhooks/leads", createInboundRouter({ pool: db.pool, config: config.inbound }));
+  app.use("/webhooks/amocrm", createAmoWebhookRouter({ pool: db.pool, document: conversions, token: config.conversions.webhookToken }));
+
+  const webhookBody = express.raw({ type: "*/*", limit: "2mb" });
+  app.post("/webhooks/typeform", webhookBody, (req, res) => handleTypeformWebhook(req, res, { secrets: legacySecrets }));
+  app.post("/webhooks/typeform/:sourceKey", webhookBody, (req, res) => {
+    const source = sources.find((s) => s.key === req.params.sourceKey);
+    if (!source) {
+      console.log(JSON.stringify({ msg: "typeform_webhook_rejected", reason: "unknown_source", source: req.params.sourceKey }));
+      return res.status(404).json({ ok: false, error: "Unknown webhook source" });
+    }
+    return handleTypeformWebhook(req, res, source);
+  });
+
+  const worker = startTypeformWorker({
+    pool: db.pool,
+    config: config.worker,
+    handle: async (job) => {
+      await sync(job.payload as TypeformWebhookPayload, { jobId: job.id, sourceKey: job.source_key ?? undefined });
+    }
   });
 
-  app.listen(config.port, () => {
+  const tokenTimer = setInterval(() => {
+    amo.ensureFreshToken(db.pool).catch(() => {
+      // Already recorded as amocrm.last_refresh_error and reported by /health.
+    });
+  }, 60_000);
+  tokenTimer.unref();
+
+  const server = app.listen(config.port, () => {
     console.log(`Listening on :${config.port}`);
   });
+
+  const shutdown = (signal: string) => {
+    console.log(JSON.stringify({ msg: "shutdown", signal }));
+    server.close();
+    clearInterval(tokenTimer);
+    worker
+      .stop()
+      .then(() => db.pool.end())
+      .finally(() => process.exit(0));
+  };
+  process.once("SIGTERM", () => shutdown("SIGTERM"));
+  process.once("SIGINT", () => shutdown("SIGINT"));
 }
 
 main().catch((e) => {
@@ -1,58 +1,20 @@
-import type { TypeformWebhookPayload } from "./typeform";
+import type { TypeformAnswer, TypeformWebhookPayload } from "./typeform";
+import { answerLabels, answerText } from "./typeform";
+import type { ChildrenMapping, EnumResolution, MappingDocument, MappingRule, MappingSource } from "./mappingConfig";
+import { childrenForForm, contactSourcesForForm, rulesForForm } from "./mappingConfig";
+import type { EnumCatalog } from "./enumResolver";
+import { matchLabel, resolveEnum } from "./enumResolver";
 
-type LeadCustomFieldValue = {
+export type CustomFieldValue = {
   field_id: number;
-  values: Array<{ value?: string; enum_id?: number }>;
+  values: Array<{ value?: string | boolean; enum_id?: number }>;
 };
 
-const HIDDEN_TO_LEAD_FIELD_ID: Record<string, number> = {
-  utm_content: 214691,
-  utm_medium: 214693,
-  utm_campaign: 214695,
-  utm_source: 214697,
-  utm_term: 214699,
-  utm_referrer: 214701,
-  roistat: 214703,
-  referrer: 214705,
-  openstat_service: 214707,
-  openstat_campaign: 214709,
-  openstat_ad: 214711,
-  openstat_source: 214713,
-  from: 214715,
-  gclientid: 214717,
-  _ym_uid: 214719,
-  _ym_counter: 214721,
-  gclid: 214723,
-  yclid: 214725,
-  fbclid: 214727
-};
-
-function parseFieldMap(raw: string | undefined): Record<string, { entity: "lead"; fieldId: number }> {
-  if (!raw) return {};
-  const parsed = JSON.parse(raw) as Record<string, { entity: "lead"; fieldId: number }>;
-  return parsed;
-}
-
-const DEFAULT_REFS = {
-  fullName: ["fd704be3-ad3e-4290-b60d-7f975b55ae84", "3e231887-ca36-4afd-aefa-119d3c7e710d"],
-  childName: ["8c517346-f61c-4275-ae57-1a088af15cfe", "2fa4a64a-dac4-4ace-98a3-18419435d831"],
-  childDob: ["d35af5e7-1255-485c-a445-d49d2c682fd2", "98e1c79c-bdb2-4534-bf70-5894ed7e9c2b"],
-  desiredProgram: ["f1da7df1-b0b0-4fc7-8cd4-0bf95cfdcd2b", "c90719d9-e6d8-4fbe-9d4b-c05953644281"],
-  currentEducation: ["658c6abe-395a-4362-9124-6304202d443b", "b1a6060f-4d88-4be0-ae79-8944452c3c1a"]
-};
-
-const LEAD_FIELD = {
-  fullName: 985897,
-  childName1: 995889,
-  childDob1: 995891,
-  desiredProgram: 995887,
-  currentEducation: 985895
-};
-
-const DESIRED_PROGRAM_ENUM = {
-  kindergarden: 1222831,
-  ibSchool: 1222835,
-  consultation: 1222837
+/** A choice label that no enum option, alias or fallback matched. */
+export type UnmatchedEnumValue = {
+  entity: "lead" | "contact";
+  fieldId: number;
+  label: string;
 };
 
 function toAmoDateTime(value: string | undefined): string | undefined {
@@ -62,66 +24,240 @@ function toAmoDateTime(value: string | undefined): string | undefined {
   return `${s}T00:00:00+00:00`;
 }
 
-function getAnswerString(a: NonNullable<TypeformWebhookPayload["form_response"]["answers"]>[number]): string | undefined {
-  if (a.text) return a.text;
-  if (a.email) return a.email;
-  if (a.phone_number) return a.phone_number;
-  if (typeof a.boolean === "boolean") return a.boolean ? "true" : "false";
-  if (typeof a.number === "number") return String(a.number);
-  if (a.date) return toAmoDateTime(a.date);
-  if (a.choice?.label) return a.choice.label;
-  if (a.choices?.labels?.length) return a.choices.labels.join(", ");
+type SourceValue = { answer?: TypeformAnswer; text?: string };
+
+function readSource(params: {
+  source: MappingSource;
+  answersByKey: Map<string, TypeformAnswer>;
+  hidden: Record<string, string>;
+}): SourceValue | undefined {
+  const { source, answersByKey, hidden } = params;
+  if ("hidden" in source) {
+    const v = hidden[source.hidden];
+    return typeof v === "string" && v.trim().length ? { text: v } : undefined;
+  }
+  const answer = answersByKey.get(source.ref);
+  if (!answer) return undefined;
+  const text = answerText(answer);
+  return text === undefined ? undefined : { answer, text };
+}
+
+function applyRule(params: {
+  rule: MappingRule;
+  sourceValues: SourceValue[];
+  enums: EnumCatalog;
+  unmatched: UnmatchedEnumValue[];
+}): CustomFieldValue | undefined {
+  const { rule, sourceValues, enums, unmatched } = params;
+  const { fieldId } = rule.target;
+  const first = sourceValues[0];
+  if (!first) return undefined;
+
+  const resolveLabels = (labels: string[], resolution: EnumResolution): number[] => {
+    const ids: number[] = [];
+    for (const label of labels) {
+      const match = resolveEnum({ label, fieldId, resolution, catalog: enums });
+      if (match) ids.push(match.enumId);
+      else unmatched.push({ entity: rule.target.entity, fieldId, label });
+    }
+    return Array.from(new Set(ids));
+  };
+
+  switch (rule.transform.type) {
+    case "text": {
+      // Date answers keep the datetime format TYPEFORM_FIELD_MAP entries always wrote.
+      const value = first.answer?.date ? toAmoDateTime(first.answer.date) : first.text?.trim();
+      return value ? { field_id: fieldId, values: [{ value }] } : undefined;
+    }
+    case "date": {
+      const value = toAmoDateTime(first.answer?.date ?? first.text);
+      return value ? { field_id: fieldId, values: [{ value }] } : undefined;
+    }
+    case "enum": {
+      const labels = first.answer ? answerLabels(first.answer) : first.text ? [first.text] : [];
+      const [enumId] = resolveLabels(labels.slice(0, 1), rule.transform);
+      return enumId ? { field_id: fieldId, values: [{ enum_id: enumId }] } : undefined;
+    }
+    case "multiselect": {
+      const labels = first.answer ? answerLabels(first.answer) : (first.text?.split(",") ?? []);
+      const enumIds = resolveLabels(labels.map((l) => l.trim()).filter(Boolean), rule.transform);
+      return enumIds.length ? { field_id: fieldId, values: enumIds.map((enum_id) => ({ enum_id })) } : undefined;
+    }
+    case "checkbox": {
+      const trueValues = (rule.transform.trueValues ?? ["true", "yes", "да", "ha", "1"]).map((v) => v.toLowerCase());
+      const checked =
+        typeof first.answer?.boolean === "boolean" ? first.answer.boolean : trueValues.includes((first.text ?? "").trim().toLowerCase());
+      return { field_id: fieldId, values: [{ value: checked }] };
+    }
+    case "concat": {
+      const value = sourceValues
+        .map((v) => v.text?.trim())
+        .filter((v): v is string => !!v)
+        .join(rule.transform.separator ?? ", ");
+      return value ? { field_id: fieldId, values: [{ value }] } : undefined;
+    }
+  }
+}
+
+function firstSourceValue(params: {
+  sources: MappingSource[] | undefined;
+  answersByKey: Map<string, TypeformAnswer>;
+  hidden: Record<string, string>;
+}): SourceValue | undefined {
+  const { sources, answersByKey, hidden } = params;
+  for (const source of sources ?? []) {
+    const v = readSource({ source, answersByKey, hidden });
+    if (v) return v;
+  }
   return undefined;
 }
 
-function mapDesiredProgramEnum(label: string | undefined): number | undefined {
-  if (!label) return undefined;
-  const s = label.trim().toLowerCase();
-  if (s.startsWith("ib kg")) return DESIRED_PROGRAM_ENUM.kindergarden;
-  if (s.startsWith("pyp")) return DESIRED_PROGRAM_ENUM.ibSchool;
-  if (s.startsWith("myp")) return DESIRED_PROGRAM_ENUM.ibSchool;
-  if (s.startsWith("dp")) return DESIRED_PROGRAM_ENUM.ibSchool;
-  if (s.includes("not sure")) return DESIRED_PROGRAM_ENUM.consultation;
-  if (s.includes("не уверен")) return DESIRED_PROGRAM_ENUM.consultation;
+function buildChildFields(params: {
+  children: ChildrenMapping;
+  answersByKey: Map<string, TypeformAnswer>;
+  hidden: Record<string, string>;
+  logContext: Record<string, unknown>;
+}): CustomFieldValue[] {
+  const { children, answersByKey, hidden, logContext } = params;
+  const out: CustomFieldValue[] = [];
+  let count = 0;
+
+  for (const group of children.groups) {
+    const name = firstSourceValue({ sources: group.name, answersByKey, hidden })?.text?.trim();
+    const dobValue = firstSourceValue({ sources: group.dob, answersByKey, hidden });
+    const dob = toAmoDateTime(dobValue?.answer?.date ?? dobValue?.text);
+    if (!name && !dob) continue;
+
+    const slot = children.slots[count];
+    count += 1;
+    if (!slot) continue;
+
+    if (name) out.push({ field_id: slot.nameFieldId, values: [{ value: name }] });
+    if (dob) out.push({ field_id: slot.dobFieldId, values: [{ value: dob }] });
+
+    const programValue = firstSourceValue({ sources: group.program, answersByKey, hidden });
+    const programLabel = programValue?.answer ? answerLabels(programValue.answer)[0] : programValue?.text;
+    const program = programLabel ? matchLabel(children.programs, programLabel)?.program : undefined;
+    const enumId = program ? slot.programEnumIds[program] : undefined;
+    if (enumId) out.push({ field_id: slot.programFieldId, values: [{ enum_id: enumId }] });
+  }
+
+  if (count > children.slots.length) {
+    console.warn(
+      JSON.stringify({
+        msg: "typeform_children_overflow",
+        ...logContext,
+        children: count,
+        slots: children.slots.length
+      })
+    );
+  }
+  if (count && children.countFieldId) out.push({ field_id: children.countFieldId, values: [{ value: String(count) }] });
+
+  return out;
+}
+
+/** Program key (see `children.programs`) of the first child group that answered the program question. */
+export function resolveProgram(payload: TypeformWebhookPayload, mapping: MappingDocument): string | undefined {
+  const children = childrenForForm(mapping, payload.form_response.form_id);
+  if (!children) return undefined;
+  const hidden = payload.form_response.hidden ?? {};
+  const answersByKey = indexAnswers(payload);
+  for (const group of children.groups) {
+    const v = firstSourceValue({ sources: group.program, answersByKey, hidden });
+    const label = v?.answer ? answerLabels(v.answer)[0] : v?.text;
+    const program = label ? matchLabel(children.programs, label)?.program : undefined;
+    if (program) return program;
+  }
   return undefined;
 }
 
-export function buildLeadCustomFields(payload: TypeformWebhookPayload): LeadCustomFieldValue[] {
+/** Present values of `sources`, each with the answer ref or hidden field name it came from. */
+export function sourceValues(
+  payload: TypeformWebhookPayload,
+  sources: MappingSource[]
+): Array<{ key: string; answer?: TypeformAnswer; text: string }> {
   const hidden = payload.form_response.hidden ?? {};
-  const outByFieldId = new Map<number, LeadCustomFieldValue>();
+  const answersByKey = indexAnswers(payload);
+  const out: Array<{ key: string; answer?: TypeformAnswer; text: string }> = [];
+  for (const source of sources) {
+    const v = readSource({ source, answersByKey, hidden });
+    if (!v?.text) continue;
+    const key = "hidden" in source ? source.hidden : (v.answer?.field.ref ?? source.ref);
+    out.push({ key, answer: v.answer, text: v.text });
+  }
+  return out;
+}
 
-  function put(params: { fieldId: number; value?: string; enumId?: number }) {
-    const { fieldId, value, enumId } = params;
-    if ((value === undefined || value.trim().length === 0) && enumId === undefined) return;
-    outByFieldId.set(fieldId, { field_id: fieldId, values: [{ ...(value ? { value: value.trim() } : {}), ...(enumId ? { enum_id: enumId } : {}) }] });
+/** Raw answers of each child group that has a name or date of birth, with the answer keys used. */
+export function extractChildren(
+  payload: TypeformWebhookPayload,
+  mapping: MappingDocument
+): Array<{ name?: string; dob?: string; program?: string; keys: string[] }> {
+  const children = childrenForForm(mapping, payload.form_response.form_id);
+  if (!children) return [];
+  const first = (sources: MappingSource[] | undefined) => sourceValues(payload, sources ?? [])[0];
+  const out: Array<{ name?: string; dob?: string; program?: string; keys: string[] }> = [];
+  for (const group of children.groups) {
+    const name = first(group.name);
+    const dob = first(group.dob);
+    if (!name && !dob) continue;
+    const program = first(group.program);
+    out.push({
+      name: name?.text.trim(),
+      dob: dob?.answer?.date ?? dob?.text,
+      program: program?.answer ? answerLabels(program.answer)[0] : program?.text,
+      keys: [name, dob, program].flatMap((v) => (v?.answer ? [v.key] : []))
+    });
   }
+  return out;
+}
 
-  for (const [k, v] of Object.entries(hidden)) {
-    const fieldId = HIDDEN_TO_LEAD_FIELD_ID[k];
-    if (!fieldId) continue;
-    if (typeof v !== "string" || v.trim().length === 0) continue;
-    put({ fieldId, value: v });
+/** Raw Telegram and language answers of the form's `contact` questions, if it has any. */
+export function mappedContactBits(payload: TypeformWebhookPayload, mapping: MappingDocument): { telegram?: string; language?: string } {
+  const sources = contactSourcesForForm(mapping, payload.form_response.form_id);
+  if (!sources) return {};
+  const hidden = payload.form_response.hidden ?? {};
+  const answersByKey = indexAnswers(payload);
+  const read = (s: MappingSource[] | undefined) => {
+    const v = firstSourceValue({ sources: s, answersByKey, hidden });
+    return (v?.answer ? answerLabels(v.answer)[0] : v?.text)?.trim() || undefined;
+  };
+  return { telegram: read(sources.telegram), language: read(sources.language) };
+}
+
+function indexAnswers(payload: TypeformWebhookPayload): Map<string, TypeformAnswer> {
+  const answersByKey = new Map<string, TypeformAnswer>();
+  for (const a of payload.form_response.answers ?? []) {
+    answersByKey.set(a.field.ref ?? a.field.id, a);
+    answersByKey.set(a.field.id, a);
   }
+  return answersByKey;
+}
 
-  const answers = payload.form_response.answers ?? [];
-  for (const a of answers) {
-    const key = a.field.ref ?? a.field.id;
+export function buildCustomFields(
+  payload: TypeformWebhookPayload,
+  mapping: MappingDocument,
+  enums: EnumCatalog = new Map()
+): { lead: CustomFieldValue[]; contact: CustomFieldValue[]; unmatched: UnmatchedEnumValue[] } {
+  const hidden = payload.form_response.hidden ?? {};
+  const answersByKey = indexAnswers(payload);
+  const unmatched: UnmatchedEnumValue[] = [];
 
-    if (DEFAULT_REFS.fullName.includes(key)) put({ fieldId: LEAD_FIELD.fullName, value: a.text });
-    if (DEFAULT_REFS.childName.includes(key)) put({ fieldId: LEAD_FIELD.childName1, value: a.text });
-    if (DEFAULT_REFS.childDob.includes(key)) put({ fieldId: LEAD_FIELD.childDob1, value: toAmoDateTime(a.date) });
-    if (DEFAULT_REFS.desiredProgram.includes(key)) put({ fieldId: LEAD_FIELD.desiredProgram, enumId: mapDesiredProgramEnum(a.choice?.label) });
-    if (DEFAULT_REFS.currentEducation.includes(key)) put({ fieldId: LEAD_FIELD.currentEducation, value: a.choice?.label });
+  const out = { lead: new Map<number, CustomFieldValue>(), contact: new Map<number, CustomFieldValue>() };
+  for (const rule of rulesForForm(mapping, payload.form_response.form_id)) {
+    const sourceValues = rule.sources
+      .map((source) => readSource({ source, answersByKey, hidden }))
+      .filter((v): v is SourceValue => !!v);
+    const value = applyRule({ rule, sourceValues, enums, unmatched });
+    if (value) out[rule.target.entity].set(value.field_id, value);
   }
 
-  const map = parseFieldMap(process.env.TYPEFORM_FIELD_MAP);
-  for (const a of answers) {
-    const key = a.field.ref ?? a.field.id;
-    const mapping = map[key];
-    if (!mapping || mapping.entity !== "lead") continue;
-    const value = getAnswerString(a);
-    put({ fieldId: mapping.fieldId, value });
+  const children = childrenForForm(mapping, payload.form_response.form_id);
+  if (children) {
+    const logContext = { form_id: payload.form_response.form_id, token: payload.form_response.token };
+    for (const value of buildChildFields({ children, answersByKey, hidden, logContext })) out.lead.set(value.field_id, value);
   }
 
-  return Array.from(outByFieldId.values());
+  return { lead: Array.from(out.lead.values()), contact: Array.from(out.contact.values()), unmatched };
 }
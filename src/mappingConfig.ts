@@ -0,0 +1,532 @@
+import fs from "node:fs";
+import type { Issues } from "./validation";
+import { isNonEmptyString, isObject, isPositiveInt } from "./validation";
+
+export type MappingSource = { ref: string } | { hidden: string };
+
+export type EnumOption = {
+  label: string;
+  enumId: number;
+  match?: "exact" | "prefix" | "contains";
+};
+
+/**
+ * How choice labels become enum ids. Without `options`, labels are matched against the
+ * field's option labels from the cached amoCRM schema.
+ */
+export type EnumResolution = {
+  /** Explicit label-to-id options, tried first. */
+  options?: EnumOption[];
+  /** Typeform label to an amoCRM option, given by its label or enum id. */
+  aliases?: Record<string, string | number>;
+  /** Option (label or enum id) for labels nothing matched; without it they are reported. */
+  fallback?: string | number;
+};
+
+export type MappingTransform =
+  | { type: "text" }
+  | { type: "date" }
+  | ({ type: "enum" } & EnumResolution)
+  | { type: "checkbox"; trueValues?: string[] }
+  | ({ type: "multiselect" } & EnumResolution)
+  | { type: "concat"; separator?: string };
+
+export type MappingRule = {
+  sources: MappingSource[];
+  target: { entity: "lead" | "contact"; fieldId: number };
+  transform: MappingTransform;
+};
+
+export type ChildQuestionGroup = {
+  name: MappingSource[];
+  dob?: MappingSource[];
+  program?: MappingSource[];
+};
+
+export type ChildSlot = {
+  nameFieldId: number;
+  dobFieldId: number;
+  programFieldId: number;
+  /** Program key (see `ChildrenMapping.programs`) to this slot's own enum id. */
+  programEnumIds: Record<string, number>;
+};
+
+export type ChildrenMapping = {
+  /** Repeated child question groups of the form, in question order. */
+  groups: ChildQuestionGroup[];
+  /** Lead field slots filled in order; children beyond the last slot are only counted. */
+  slots: ChildSlot[];
+  /** Typeform choice label to program key, matched like enum options. */
+  programs: Array<{ label: string; program: string; match?: EnumOption["match"] }>;
+  countFieldId?: number;
+};
+
+/**
+ * Questions that fill the contact's Telegram and language fields. They take precedence over
+ * the `tg_username`, `tg_id` and `lang` hidden fields, which are always read.
+ */
+export type ContactSources = {
+  /** A handle, t.me link or numeric id. */
+  telegram?: MappingSource[];
+  /** A locale code or a language label. */
+  language?: MappingSource[];
+};
+
+export type NoteLocale = "ru" | "uz" | "en";
+
+export const NOTE_LOCALES: NoteLocale[] = ["ru", "uz", "en"];
+
+export type NoteSectionKey = "parent" | "children" | "program" | "attribution";
+
+/**
+ * Layout of the lead note. Contact details, children and UTM values are placed
+ * automatically; `sections` adds further questions or hidden fields to a section.
+ */
+export type NoteTemplate = {
+  /** Language of headings, labels and dates; defaults to NOTES_LOCALE. */
+  locale?: NoteLocale;
+  sections?: Partial<Record<NoteSectionKey, MappingSource[]>>;
+  /** Hidden fields shown besides the UTM ones; the rest are technical and left out. */
+  hidden?: string[];
+  /** Answers placed in no section are listed last unless false. */
+  otherAnswers?: boolean;
+};
+
+export type FormMapping = {
+  /** When false, the `default` rules are not applied to this form. Defaults to true. */
+  inheritDefault?: boolean;
+  rules: MappingRule[];
+  /** Replaces the default `children` section for this form when set. */
+  children?: ChildrenMapping;
+  /** Replaces the default `contact` section for this form when set. */
+  contact?: ContactSources;
+  /** Replaces the default `note` template for this form when set. */
+  note?: NoteTemplate;
+};
+
+export type MappingDocument = {
+  version: 1;
+  default: FormMapping;
+  forms: Record<string, FormMapping>;
+};
+
+const DESIRED_PROGRAM_OPTIONS: EnumOption[] = [
+  { label: "ib kg", enumId: 1222831, match: "prefix" },
+  { label: "pyp", enumId: 1222835, match: "prefix" },
+  { label: "myp", enumId: 1222835, match: "prefix" },
+  { label: "dp", enumId: 1222835, match: "prefix" },
+  { label: "not sure", enumId: 1222837, match: "contains" },
+  { label: "не уверен", enumId: 1222837, match: "contains" }
+];
+
+const TRACKING_HIDDEN_FIELDS: Array<[string, number]> = [
+  ["utm_content", 214691],
+  ["utm_medium", 214693],
+  ["utm_campaign", 214695],
+  ["utm_source", 214697],
+  ["utm_term", 214699],
+  ["utm_referrer", 214701],
+  ["roistat", 214703],
+  ["referrer", 214705],
+  ["openstat_service", 214707],
+  ["openstat_campaign", 214709],
+  ["openstat_ad", 214711],
+  ["openstat_source", 214713],
+  ["from", 214715],
+  ["gclientid", 214717],
+  ["_ym_uid", 214719],
+  ["_ym_counter", 214721],
+  ["gclid", 214723],
+  ["yclid", 214725],
+  ["fbclid", 214727]
+];
+
+function refs(...values: string[]): MappingSource[] {
+  return values.map((ref) => ({ ref }));
+}
+
+const DESIRED_PROGRAM_REFS = refs("f1da7df1-b0b0-4fc7-8cd4-0bf95cfdcd2b", "c90719d9-e6d8-4fbe-9d4b-c05953644281");
+
+const CHILD_SLOTS: ChildSlot[] = [
+  {
+    nameFieldId: 995889,
+    dobFieldId: 995891,
+    programFieldId: 995893,
+    programEnumIds: { kindergarden: 1222839, russianSchool: 1222841, ibSchool: 1222843, consultation: 1222845 }
+  },
+  {
+    nameFieldId: 995897,
+    dobFieldId: 995899,
+    programFieldId: 995903,
+    programEnumIds: { kindergarden: 1222859, russianSchool: 1222861, ibSchool: 1222863, consultation: 1222865 }
+  },
+  {
+    nameFieldId: 995909,
+    dobFieldId: 995911,
+    programFieldId: 995915,
+    programEnumIds: { kindergarden: 1222877, russianSchool: 1222879, ibSchool: 1222881, consultation: 1222883 }
+  },
+  {
+    nameFieldId: 995919,
+    dobFieldId: 995921,
+    programFieldId: 995923,
+    programEnumIds: { kindergarden: 1222889, russianSchool: 1222891, ibSchool: 1222893, consultation: 1222895 }
+  }
+];
+
+const CHILD_PROGRAMS: ChildrenMapping["programs"] = [
+  { label: "ib kg", program: "kindergarden", match: "prefix" },
+  { label: "pyp", program: "ibSchool", match: "prefix" },
+  { label: "myp", program: "ibSchool", match: "prefix" },
+  { label: "dp", program: "ibSchool", match: "prefix" },
+  { label: "not sure", program: "consultation", match: "contains" },
+  { label: "не уверен", program: "consultation", match: "contains" }
+];
+
+// "Кампус" selects; the lead and contact fields have their own option ids.
+const CAMPUS_LEAD_OPTIONS: EnumOption[] = [
+  { label: "yashn", enumId: 1223823, match: "prefix" },
+  { label: "яшн", enumId: 1223823, match: "prefix" },
+  { label: "mu", enumId: 1223825, match: "prefix" },
+  { label: "му", enumId: 1223825, match: "prefix" }
+];
+
+const CAMPUS_CONTACT_OPTIONS: EnumOption[] = [
+  { label: "yashn", enumId: 1222903, match: "prefix" },
+  { label: "яшн", enumId: 1222903, match: "prefix" },
+  { label: "mu", enumId: 1222901, match: "prefix" },
+  { label: "му", enumId: 1222901, match: "prefix" }
+];
+
+/** Form id of leads posted to `/webhooks/leads`; their answer refs are fixed by src/inbound.ts. */
+export const INBOUND_FORM_ID = "inbound";
+
+export const MAX_INBOUND_CHILDREN = 6;
+
+/** Built-in mapping of inbound leads, used unless the mapping document has its own `forms.inbound`. */
+export const INBOUND_FORM_MAPPING: FormMapping = {
+  rules: [
+    {
+      sources: refs("program"),
+      target: { entity: "lead", fieldId: 995887 },
+      transform: { type: "enum", options: DESIRED_PROGRAM_OPTIONS }
+    },
+    {
+      sources: refs("campus"),
+      target: { entity: "lead", fieldId: 996203 },
+      transform: { type: "enum", options: CAMPUS_LEAD_OPTIONS }
+    },
+    {
+      sources: refs("campus"),
+      target: { entity: "contact", fieldId: 995933 },
+      transform: { type: "enum", options: CAMPUS_CONTACT_OPTIONS }
+    }
+  ],
+  note: { sections: { program: refs("program", "campus") } },
+  children: {
+    groups: Array.from({ length: MAX_INBOUND_CHILDREN }, (_, i) => ({
+      name: refs(`child_${i + 1}_name`),
+      dob: refs(`child_${i + 1}_dob`),
+      program: refs(`child_${i + 1}_program`, "program")
+    })),
+    slots: CHILD_SLOTS,
+    programs: CHILD_PROGRAMS,
+    countFieldId: 995937
+  }
+};
+
+/** Used when MAPPING_CONFIG_PATH is not set; mirrors the two production forms. */
+export const DEFAULT_MAPPING_DOCUMENT: MappingDocument = {
+  version: 1,
+  default: {
+    rules: [
+      ...TRACKING_HIDDEN_FIELDS.map(([hidden, fieldId]): MappingRule => ({
+        sources: [{ hidden }],
+        target: { entity: "lead", fieldId },
+        transform: { type: "text" }
+      })),
+      {
+        sources: refs("fd704be3-ad3e-4290-b60d-7f975b55ae84", "3e231887-ca36-4afd-aefa-119d3c7e710d"),
+        target: { entity: "lead", fieldId: 985897 },
+        transform: { type: "text" }
+      },
+      {
+        sources: DESIRED_PROGRAM_REFS,
+        target: { entity: "lead", fieldId: 995887 },
+        transform: { type: "enum", options: DESIRED_PROGRAM_OPTIONS }
+      },
+      {
+        sources: refs("658c6abe-395a-4362-9124-6304202d443b", "b1a6060f-4d88-4be0-ae79-8944452c3c1a"),
+        target: { entity: "lead", fieldId: 985895 },
+        transform: { type: "text" }
+      }
+    ],
+    children: {
+      groups: [
+        {
+          name: refs("8c517346-f61c-4275-ae57-1a088af15cfe", "2fa4a64a-dac4-4ace-98a3-18419435d831"),
+          dob: refs("d35af5e7-1255-485c-a445-d49d2c682fd2", "98e1c79c-bdb2-4534-bf70-5894ed7e9c2b"),
+          program: DESIRED_PROGRAM_REFS
+        }
+      ],
+      slots: CHILD_SLOTS,
+      programs: CHILD_PROGRAMS,
+      countFieldId: 995937
+    },
+    note: { sections: { program: DESIRED_PROGRAM_REFS } }
+  },
+  forms: { [INBOUND_FORM_ID]: INBOUND_FORM_MAPPING }
+};
+
+function validateEnumOptions(path: string, v: unknown, issues: Issues) {
+  if (!Array.isArray(v) || !v.length) {
+    issues.push(`${path}: must be a non-empty array`);
+    return;
+  }
+  v.forEach((o, i) => {
+    const p = `${path}[${i}]`;
+    if (!isObject(o)) return issues.push(`${p}: must be an object`);
+    if (!isNonEmptyString(o.label)) issues.push(`${p}.label: must be a non-empty string`);
+    if (!isPositiveInt(o.enumId)) issues.push(`${p}.enumId: must be a positive integer`);
+    if (o.match !== undefined && !["exact", "prefix", "contains"].includes(o.match as string)) {
+      issues.push(`${p}.match: must be one of exact, prefix, contains`);
+    }
+  });
+}
+
+function validateTransform(path: string, v: unknown, sourceCount: number, issues: Issues) {
+  if (!isObject(v)) return issues.push(`${path}: must be an object`);
+  switch (v.type) {
+    case "text":
+    case "date":
+      break;
+    case "enum":
+    case "multiselect":
+      if (v.options !== undefined) validateEnumOptions(`${path}.options`, v.options, issues);
+      if (v.aliases !== undefined) {
+        if (!isObject(v.aliases)) issues.push(`${path}.aliases: must be an object`);
+        else {
+          for (const [label, target] of Object.entries(v.aliases)) {
+            if (!isNonEmptyString(target) && !isPositiveInt(target)) {
+              issues.push(`${path}.aliases.${label}: must be an option label or a positive integer enum id`);
+            }
+          }
+        }
+      }
+      if (v.fallback !== undefined && !isNonEmptyString(v.fallback) && !isPositiveInt(v.fallback)) {
+        issues.push(`${path}.fallback: must be an option label or a positive integer enum id`);
+      }
+      break;
+    case "checkbox":
+      if (v.trueValues !== undefined && (!Array.isArray(v.trueValues) || !v.trueValues.every(isNonEmptyString))) {
+        issues.push(`${path}.trueValues: must be an array of strings`);
+      }
+      break;
+    case "concat":
+      if (v.separator !== undefined && typeof v.separator !== "string") issues.push(`${path}.separator: must be a string`);
+      if (sourceCount < 2) issues.push(`${path}: concat needs at least two sources`);
+      break;
+    default:
+      issues.push(`${path}.type: must be one of text, date, enum, checkbox, multiselect, concat`);
+  }
+}
+
+function validateSources(path: string, v: unknown, issues: Issues) {
+  if (!Array.isArray(v) || !v.length) return issues.push(`${path}: must be a non-empty array`);
+  v.forEach((s, i) => {
+    const p = `${path}[${i}]`;
+    if (!isObject(s)) return issues.push(`${p}: must be an object`);
+    const hasRef = isNonEmptyString(s.ref);
+    const hasHidden = isNonEmptyString(s.hidden);
+    if (hasRef === hasHidden) issues.push(`${p}: must have exactly one of "ref" or "hidden"`);
+  });
+}
+
+function validateRule(path: string, v: unknown, issues: Issues) {
+  if (!isObject(v)) return issues.push(`${path}: must be an object`);
+
+  validateSources(`${path}.sources`, v.sources, issues);
+
+  if (!isObject(v.target)) {
+    issues.push(`${path}.target: must be an object`);
+  } else {
+    if (v.target.entity !== "lead" && v.target.entity !== "contact") issues.push(`${path}.target.entity: must be "lead" or "contact"`);
+    if (!isPositiveInt(v.target.fieldId)) issues.push(`${path}.target.fieldId: must be a positive integer`);
+  }
+
+  validateTransform(`${path}.transform`, v.transform, Array.isArray(v.sources) ? v.sources.length : 0, issues);
+}
+
+function validateChildren(path: string, v: unknown, issues: Issues) {
+  if (!isObject(v)) return issues.push(`${path}: must be an object`);
+
+  if (!Array.isArray(v.groups) || !v.groups.length) {
+    issues.push(`${path}.groups: must be a non-empty array`);
+  } else {
+    v.groups.forEach((g, i) => {
+      const p = `${path}.groups[${i}]`;
+      if (!isObject(g)) return issues.push(`${p}: must be an object`);
+      validateSources(`${p}.name`, g.name, issues);
+      if (g.dob !== undefined) validateSources(`${p}.dob`, g.dob, issues);
+      if (g.program !== undefined) validateSources(`${p}.program`, g.program, issues);
+    });
+  }
+
+  const programKeys = new Set<string>();
+  if (!Array.isArray(v.programs)) {
+    issues.push(`${path}.programs: must be an array`);
+  } else {
+    v.programs.forEach((o, i) => {
+      const p = `${path}.programs[${i}]`;
+      if (!isObject(o)) return issues.push(`${p}: must be an object`);
+      if (!isNonEmptyString(o.label)) issues.push(`${p}.label: must be a non-empty string`);
+      if (!isNonEmptyString(o.program)) issues.push(`${p}.program: must be a non-empty string`);
+      else programKeys.add(o.program);
+      if (o.match !== undefined && !["exact", "prefix", "contains"].includes(o.match as string)) {
+        issues.push(`${p}.match: must be one of exact, prefix, contains`);
+      }
+    });
+  }
+
+  if (!Array.isArray(v.slots) || !v.slots.length) {
+    issues.push(`${path}.slots: must be a non-empty array`);
+  } else {
+    v.slots.forEach((slot, i) => {
+      const p = `${path}.slots[${i}]`;
+      if (!isObject(slot)) return issues.push(`${p}: must be an object`);
+      for (const k of ["nameFieldId", "dobFieldId", "programFieldId"]) {
+        if (!isPositiveInt(slot[k])) issues.push(`${p}.${k}: must be a positive integer`);
+      }
+      if (!isObject(slot.programEnumIds)) return issues.push(`${p}.programEnumIds: must be an object`);
+      for (const [key, enumId] of Object.entries(slot.programEnumIds)) {
+        if (!isPositiveInt(enumId)) issues.push(`${p}.programEnumIds.${key}: must be a positive integer`);
+      }
+      for (const key of programKeys) {
+        if (!(key in slot.programEnumIds)) issues.push(`${p}.programEnumIds: missing program "${key}"`);
+      }
+    });
+  }
+
+  if (v.countFieldId !== undefined && !isPositiveInt(v.countFieldId)) issues.push(`${path}.countFieldId: must be a positive integer`);
+}
+
+function validateContactSources(path: string, v: unknown, issues: Issues) {
+  if (!isObject(v)) return issues.push(`${path}: must be an object`);
+  for (const [k, sources] of Object.entries(v)) {
+    if (k !== "telegram" && k !== "language") issues.push(`${path}.${k}: unknown key, expected telegram or language`);
+    else validateSources(`${path}.${k}`, sources, issues);
+  }
+}
+
+const NOTE_SECTIONS: NoteSectionKey[] = ["parent", "children", "program", "attribution"];
+
+function validateNoteTemplate(path: string, v: unknown, issues: Issues) {
+  if (!isObject(v)) return issues.push(`${path}: must be an object`);
+  if (v.locale !== undefined && !NOTE_LOCALES.includes(v.locale as NoteLocale)) {
+    issues.push(`${path}.locale: must be one of ${NOTE_LOCALES.join(", ")}`);
+  }
+  if (v.sections !== undefined) {
+    if (!isObject(v.sections)) issues.push(`${path}.sections: must be an object`);
+    else {
+      for (const [k, sources] of Object.entries(v.sections)) {
+        if (!NOTE_SECTIONS.includes(k as NoteSectionKey)) issues.push(`${path}.sections.${k}: unknown section, expected one of ${NOTE_SECTIONS.join(", ")}`);
+        else validateSources(`${path}.sections.${k}`, sources, issues);
+      }
+    }
+  }
+  if (v.hidden !== undefined && (!Array.isArray(v.hidden) || !v.hidden.every(isNonEmptyString))) {
+    issues.push(`${path}.hidden: must be an array of hidden field names`);
+  }
+  if (v.otherAnswers !== undefined && typeof v.otherAnswers !== "boolean") issues.push(`${path}.otherAnswers: must be a boolean`);
+}
+
+function validateFormMapping(path: string, v: unknown, issues: Issues) {
+  if (!isObject(v)) return issues.push(`${path}: must be an object`);
+  if (v.inheritDefault !== undefined && typeof v.inheritDefault !== "boolean") issues.push(`${path}.inheritDefault: must be a boolean`);
+  if (v.children !== undefined) validateChildren(`${path}.children`, v.children, issues);
+  if (v.contact !== undefined) validateContactSources(`${path}.contact`, v.contact, issues);
+  if (v.note !== undefined) validateNoteTemplate(`${path}.note`, v.note, issues);
+  if (!Array.isArray(v.rules)) return issues.push(`${path}.rules: must be an array`);
+  v.rules.forEach((r, i) => validateRule(`${path}.rules[${i}]`, r, issues));
+}
+
+export function validateMappingDocument(v: unknown): Issues {
+  const issues: Issues = [];
+  if (!isObject(v)) return ["document: must be a JSON object"];
+  if (v.version !== 1) issues.push(`version: unsupported version ${JSON.stringify(v.version)}, expected 1`);
+  validateFormMapping("default", v.default, issues);
+  if (!isObject(v.forms)) {
+    issues.push("forms: must be an object keyed by Typeform form_id");
+  } else {
+    for (const [formId, form] of Object.entries(v.forms)) validateFormMapping(`forms.${formId}`, form, issues);
+  }
+  return issues;
+}
+
+/** Converts the legacy TYPEFORM_FIELD_MAP env var ({ ref: { entity, fieldId } }) into text rules. */
+function legacyFieldMapRules(raw: string | undefined): MappingRule[] {
+  if (!raw) return [];
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error("Invalid TYPEFORM_FIELD_MAP: not valid JSON");
+  }
+  if (!isObject(parsed)) throw new Error("Invalid TYPEFORM_FIELD_MAP: must be a JSON object");
+  const rules = Object.entries(parsed).map(([ref, m]) => ({
+    sources: [{ ref }],
+    target: isObject(m) ? { entity: m.entity, fieldId: m.fieldId } : m,
+    transform: { type: "text" }
+  }));
+  const issues: Issues = [];
+  rules.forEach((r, i) => validateRule(`TYPEFORM_FIELD_MAP[${i}]`, r, issues));
+  if (issues.length) throw new Error(`Invalid TYPEFORM_FIELD_MAP:\n  - ${issues.join("\n  - ")}`);
+  return rules as MappingRule[];
+}
+
+export function loadMappingDocument(params: { path?: string; legacyFieldMap?: string }): MappingDocument {
+  const { path, legacyFieldMap } = params;
+  let doc: MappingDocument = DEFAULT_MAPPING_DOCUMENT;
+
+  if (path) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(fs.readFileSync(path, "utf8"));
+    } catch (e) {
+      const message = e instanceof Error ? e.message : "Unknown error";
+      throw new Error(`Cannot read mapping document ${path}: ${message}`);
+    }
+    const issues = validateMappingDocument(parsed);
+    if (issues.length) throw new Error(`Invalid mapping document ${path}:\n  - ${issues.join("\n  - ")}`);
+    const loaded = parsed as MappingDocument;
+    doc = { ...loaded, forms: { [INBOUND_FORM_ID]: INBOUND_FORM_MAPPING, ...loaded.forms } };
+  }
+
+  const legacyRules = legacyFieldMapRules(legacyFieldMap);
+  if (!legacyRules.length) return doc;
+  return { ...doc, default: { ...doc.default, rules: [...doc.default.rules, ...legacyRules] } };
+}
+
+export function rulesForForm(doc: MappingDocument, formId: string): MappingRule[] {
+  const form = doc.forms[formId];
+  if (!form) return doc.default.rules;
+  return form.inheritDefault === false ? form.rules : [...doc.default.rules, ...form.rules];
+}
+
+export function childrenForForm(doc: MappingDocument, formId: string): ChildrenMapping | undefined {
+  const form = doc.forms[formId];
+  if (!form) return doc.default.children;
+  return form.children ?? (form.inheritDefault === false ? undefined : doc.default.children);
+}
+
+export function contactSourcesForForm(doc: MappingDocument, formId: string): ContactSources | undefined {
+  const form = doc.forms[formId];
+  if (!form) return doc.default.contact;
+  return form.contact ?? (form.inheritDefault === false ? undefined : doc.default.contact);
+}
+
+export function noteTemplateForForm(doc: MappingDocument, formId: string): NoteTemplate | undefined {
+  const form = doc.forms[formId];
+  if (!form) return doc.default.note;
+  return form.note ?? (form.inheritDefault === false ? undefined : doc.default.note);
+}
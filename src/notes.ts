@@ -0,0 +1,233 @@
+import type { ContactInput } from "./amocrm";
+import type { UnmatchedEnumValue } from "./mapping";
+import { extractChildren, sourceValues } from "./mapping";
+import type { MappingDocument, NoteLocale, NoteSectionKey } from "./mappingConfig";
+import { contactSourcesForForm, noteTemplateForForm } from "./mappingConfig";
+import type { TypeformAnswer, TypeformWebhookPayload } from "./typeform";
+import { answerText } from "./typeform";
+
+type Dictionary = {
+  sections: Record<NoteSectionKey | "other", string>;
+  name: string;
+  phone: string;
+  email: string;
+  telegram: string;
+  language: string;
+  channel: string;
+  child: string;
+  yes: string;
+  no: string;
+  partial: string;
+  upgraded: string;
+  changes: string;
+  noChanges: string;
+  empty: string;
+  invalidPhone: (raw: string, reason: string) => string;
+  unmatched: string;
+};
+
+const DICTIONARIES: Record<NoteLocale, Dictionary> = {
+  ru: {
+    sections: { parent: "👤 Родитель", children: "👶 Дети", program: "🎓 Программа", attribution: "📈 Источник", other: "📝 Другие ответы" },
+    name: "Имя",
+    phone: "Телефон",
+    email: "Email",
+    telegram: "Telegram",
+    language: "Язык общения",
+    channel: "Канал",
+    child: "Ребёнок",
+    yes: "да",
+    no: "нет",
+    partial: "⏸ Анкета начата, но не завершена.",
+    upgraded: "✅ Анкета завершена после частичного ответа.",
+    changes: "✏️ Изменения в ответах:",
+    noChanges: "🔁 Анкета отправлена повторно без изменений.",
+    empty: "—",
+    invalidPhone: (raw, reason) => `⚠ Неверный номер телефона, не сохранён в контакт: ${raw} (${reason})`,
+    unmatched: "⚠ Ответы без подходящего значения в amoCRM, не сохранены:"
+  },
+  uz: {
+    sections: { parent: "👤 Ota-ona", children: "👶 Bolalar", program: "🎓 Dastur", attribution: "📈 Manba", other: "📝 Boshqa javoblar" },
+    name: "Ism",
+    phone: "Telefon",
+    email: "Email",
+    telegram: "Telegram",
+    language: "Muloqot tili",
+    channel: "Kanal",
+    child: "Bola",
+    yes: "ha",
+    no: "yo'q",
+    partial: "⏸ Anketa boshlangan, lekin tugallanmagan.",
+    upgraded: "✅ Anketa qisman javobdan so'ng tugallandi.",
+    changes: "✏️ Javoblardagi o'zgarishlar:",
+    noChanges: "🔁 Anketa o'zgarishsiz qayta yuborildi.",
+    empty: "—",
+    invalidPhone: (raw, reason) => `⚠ Telefon raqami noto'g'ri, kontaktga saqlanmadi: ${raw} (${reason})`,
+    unmatched: "⚠ amoCRM'da mos qiymati yo'q javoblar, saqlanmadi:"
+  },
+  en: {
+    sections: { parent: "👤 Parent", children: "👶 Children", program: "🎓 Program", attribution: "📈 Attribution", other: "📝 Other answers" },
+    name: "Name",
+    phone: "Phone",
+    email: "Email",
+    telegram: "Telegram",
+    language: "Language",
+    channel: "Channel",
+    child: "Child",
+    yes: "yes",
+    no: "no",
+    partial: "⏸ Partial response: the form was started but not finished.",
+    upgraded: "✅ Form completed after an earlier partial response.",
+    changes: "✏️ Changed answers:",
+    noChanges: "🔁 Submitted again without changes.",
+    empty: "—",
+    invalidPhone: (raw, reason) => `⚠ Invalid phone number, not saved to contact: ${raw} (${reason})`,
+    unmatched: "⚠ Answers without a matching amoCRM option, not saved:"
+  }
+};
+
+const INTL_LOCALES: Record<NoteLocale, string> = { ru: "ru-RU", uz: "uz-Latn-UZ", en: "en-GB" };
+
+// Marketing values managers care about; other hidden fields (click ids, counters) stay out of the note.
+const ATTRIBUTION_HIDDEN = ["utm_source", "utm_medium", "utm_campaign", "utm_content", "utm_term", "referrer", "from"];
+
+/** "2019-05-14" or a full timestamp in the note's language; other strings are returned as is. */
+export function formatNoteDate(value: string, locale: NoteLocale): string {
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value.trim());
+  const date = new Date(dateOnly ? `${value.trim()}T00:00:00Z` : value);
+  if (Number.isNaN(date.getTime())) return value;
+  return new Intl.DateTimeFormat(INTL_LOCALES[locale], { day: "numeric", month: "long", year: "numeric", timeZone: "UTC" }).format(date);
+}
+
+function formatAnswer(a: TypeformAnswer, locale: NoteLocale): string | undefined {
+  if (a.date) return formatNoteDate(a.date, locale);
+  if (typeof a.boolean === "boolean") return a.boolean ? DICTIONARIES[locale].yes : DICTIONARIES[locale].no;
+  return answerText(a);
+}
+
+function answerKey(a: TypeformAnswer): string {
+  return a.field.ref ?? a.field.id;
+}
+
+function titles(payload: TypeformWebhookPayload): Map<string, string> {
+  const byKey = new Map<string, string>();
+  for (const f of payload.form_response.definition?.fields ?? []) {
+    if (f.ref && f.title) byKey.set(f.ref, f.title);
+    if (f.id && f.title) byKey.set(f.id, f.title);
+  }
+  return byKey;
+}
+
+/** Answer key to "title: value", for rendering and for diffing two submissions. */
+function answerLines(payload: TypeformWebhookPayload, locale: NoteLocale): Map<string, { title: string; value: string }> {
+  const byKey = titles(payload);
+  const out = new Map<string, { title: string; value: string }>();
+  for (const a of payload.form_response.answers ?? []) {
+    const key = answerKey(a);
+    out.set(key, { title: byKey.get(key) ?? key, value: formatAnswer(a, locale) ?? DICTIONARIES[locale].empty });
+  }
+  return out;
+}
+
+function section(title: string, lines: string[]): string | undefined {
+  return lines.length ? [title, ...lines].join("\n") : undefined;
+}
+
+function diffAnswers(previous: TypeformWebhookPayload, payload: TypeformWebhookPayload, locale: NoteLocale): string {
+  const t = DICTIONARIES[locale];
+  const before = answerLines(previous, locale);
+  const after = answerLines(payload, locale);
+  const lines: string[] = [];
+  for (const [key, now] of after) {
+    const was = before.get(key);
+    if (was?.value !== now.value) lines.push(`${now.title}: ${was?.value ?? t.empty} → ${now.value}`);
+  }
+  for (const [key, was] of before) {
+    if (!after.has(key)) lines.push(`${was.title}: ${was.value} → ${t.empty}`);
+  }
+  return lines.length ? [t.changes, ...lines].join("\n") : t.noChanges;
+}
+
+/**
+ * The note added to the lead for a submission, laid out by the form's note template: parent,
+ * children, program, attribution and the remaining answers. With `previous` (an earlier
+ * payload of the same submission) only the changed answers are listed.
+ */
+export function renderLeadNote(params: {
+  payload: TypeformWebhookPayload;
+  mapping: MappingDocument;
+  contact: ContactInput;
+  locale: NoteLocale;
+  status?: "partial" | "upgraded";
+  previous?: TypeformWebhookPayload;
+  warnings?: { invalidPhone?: { raw: string; reason?: string }; unmatched?: UnmatchedEnumValue[] };
+}): string {
+  const { payload, mapping, contact, status, previous, warnings } = params;
+  const formId = payload.form_response.form_id;
+  const template = noteTemplateForForm(mapping, formId) ?? {};
+  const locale = template.locale ?? params.locale;
+  const t = DICTIONARIES[locale];
+  const byKey = titles(payload);
+  const used = new Set<string>();
+
+  const blocks: Array<string | undefined> = [];
+  if (status) blocks.push(status === "partial" ? t.partial : t.upgraded);
+
+  const sourceLines = (key: NoteSectionKey) =>
+    sourceValues(payload, template.sections?.[key] ?? [])
+      .filter((v) => !used.has(v.key))
+      .map((v) => {
+        used.add(v.key);
+        const value = v.answer ? (formatAnswer(v.answer, locale) ?? v.text) : v.text;
+        return `${byKey.get(v.key) ?? v.key}: ${value}`;
+      });
+
+  if (previous) {
+    blocks.push(diffAnswers(previous, payload, locale));
+  } else {
+    // Contact answers are shown once, as the normalized contact values.
+    for (const a of payload.form_response.answers ?? []) {
+      if (a.email || a.phone_number || (a.type === "text" && a.text?.trim() === contact.name)) used.add(answerKey(a));
+    }
+    const contactSources = contactSourcesForForm(mapping, formId);
+    for (const v of sourceValues(payload, [...(contactSources?.telegram ?? []), ...(contactSources?.language ?? [])])) used.add(v.key);
+    const telegram = contact.telegramUsername ? `@${contact.telegramUsername}` : contact.telegramId;
+    const parent = [
+      contact.name ? `${t.name}: ${contact.name}` : undefined,
+      contact.phone ? `${t.phone}: ${contact.phone}` : undefined,
+      contact.email ? `${t.email}: ${contact.email}` : undefined,
+      telegram ? `${t.telegram}: ${telegram}` : undefined,
+      contact.language ? `${t.language}: ${contact.language}` : undefined
+    ].filter((l): l is string => !!l);
+    blocks.push(section(t.sections.parent, [...parent, ...sourceLines("parent")]));
+
+    const children = extractChildren(payload, mapping).map((c, i) => {
+      c.keys.forEach((k) => used.add(k));
+      const details = [c.name, c.dob ? formatNoteDate(c.dob, locale) : undefined, c.program].filter(Boolean);
+      return `${t.child} ${i + 1}: ${details.join(", ")}`;
+    });
+    blocks.push(section(t.sections.children, [...children, ...sourceLines("children")]));
+    blocks.push(section(t.sections.program, sourceLines("program")));
+
+    const hidden = payload.form_response.hidden ?? {};
+    const channel = hidden.channel ? [`${t.channel}: ${hidden.channel}`] : [];
+    const shownHidden = [...ATTRIBUTION_HIDDEN, ...(template.hidden ?? [])]
+      .filter((k) => hidden[k]?.trim())
+      .map((k) => `${k}: ${hidden[k]}`);
+    blocks.push(section(t.sections.attribution, [...channel, ...shownHidden, ...sourceLines("attribution")]));
+
+    if (template.otherAnswers !== false) {
+      const other = Array.from(answerLines(payload, locale))
+        .filter(([key]) => !used.has(key))
+        .map(([, l]) => `${l.title}: ${l.value}`);
+      blocks.push(section(t.sections.other, other));
+    }
+  }
+
+  if (warnings?.invalidPhone) blocks.push(t.invalidPhone(warnings.invalidPhone.raw, warnings.invalidPhone.reason ?? ""));
+  if (warnings?.unmatched?.length) {
+    const lines = warnings.unmatched.map((u) => `- ${u.entity} field ${u.fieldId}: ${JSON.stringify(u.label)}`);
+    blocks.push([t.unmatched, ...lines].join("\n"));
+  }
+  return blocks.filter((b): b is string => !!b).join("\n\n");
+}
@@ -0,0 +1,81 @@
+import crypto from "node:crypto";
+import express from "express";
+import type pg from "pg";
+import type { AmoClient } from "./amocrm";
+import type { AppConfig } from "./config";
+import { requireAdmin } from "./admin";
+import { kvSet, kvTake } from "./db";
+
+const STATE_KEY_PREFIX = "amocrm.oauth_state.";
+const STATE_TTL_MS = 15 * 60 * 1000;
+
+function escapeHtml(s: string): string {
+  return s.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function page(title: string, body: string): string {
+  return `<!doctype html><meta charset="utf-8"><title>${escapeHtml(title)}</title><h1>${escapeHtml(title)}</h1><p>${escapeHtml(body)}</p>`;
+}
+
+/**
+ * First-time amoCRM authorization. An admin calls /start to get the consent URL, amoCRM
+ * redirects the browser to /callback (AMOCRM_REDIRECT_URI) with a one-time code, and the
+ * tokens land in kv_store where the client picks them up.
+ */
+export function createOAuthRouter(params: { pool: pg.Pool; amo: AmoClient; adminConfig: AppConfig["admin"] }): express.Router {
+  const { pool, amo, adminConfig } = params;
+  const router = express.Router();
+
+  router.get("/amocrm/start", requireAdmin(adminConfig.apiKeys), async (_req, res) => {
+    try {
+      const state = crypto.randomBytes(24).toString("base64url");
+      await kvSet(pool, `${STATE_KEY_PREFIX}${state}`, String(res.locals.adminName));
+      console.log(JSON.stringify({ msg: "amocrm_oauth_started", triggered_by: res.locals.adminName }));
+      return res.status(200).json({ ok: true, authorizeUrl: amo.getAuthorizationUrl(state) });
+    } catch (e) {
+      const message = e instanceof Error ? e.message : "Unknown error";
+      return res.status(500).json({ ok: false, error: message });
+    }
+  });
+
+  router.get("/amocrm/callback", async (req, res) => {
+    const code = typeof req.query.code === "string" ? req.query.code : undefined;
+    const state = typeof req.query.state === "string" ? req.query.state : undefined;
+    const referer = typeof req.query.referer === "string" ? req.query.referer : undefined;
+
+    if (typeof req.query.error === "string") {
+      console.log(JSON.stringify({ msg: "amocrm_oauth_denied", error: req.query.error }));
+      return res.status(400).send(page("amoCRM authorization was declined", req.query.error));
+    }
+    if (!code || !state) return res.status(400).send(page("Invalid callback", "Missing code or state."));
+
+    const stored = await kvTake(pool, `${STATE_KEY_PREFIX}${state}`).catch(() => undefined);
+    if (!stored || Date.now() - stored.updatedAt.getTime() > STATE_TTL_MS) {
+      console.log(JSON.stringify({ msg: "amocrm_oauth_rejected", reason: "invalid_state" }));
+      return res.status(400).send(page("Invalid or expired state", "Start the authorization again."));
+    }
+
+    try {
+      const status = await amo.exchangeAuthorizationCode({ pool, code, referer });
+      console.log(
+        JSON.stringify({ msg: "amocrm_oauth_connected", triggered_by: stored.value, expires_at: status.expiresAt })
+      );
+      return res.status(200).send(page("amoCRM connected", `Access token expires at ${status.expiresAt ?? "unknown"}.`));
+    } catch (e) {
+      const message = e instanceof Error ? e.message : "Unknown error";
+      console.error(JSON.stringify({ msg: "amocrm_oauth_error", error: message }));
+      return res.status(502).send(page("amoCRM authorization failed", message));
+    }
+  });
+
+  router.get("/amocrm/status", requireAdmin(adminConfig.apiKeys), async (_req, res) => {
+    try {
+      return res.status(200).json({ ok: true, ...(await amo.getAuthStatus(pool)) });
+    } catch (e) {
+      const message = e instanceof Error ? e.message : "Unknown error";
+      return res.status(500).json({ ok: false, error: message });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,67 @@
+export type PhoneType = "mobile" | "landline" | "unknown";
+
+export type NormalizedPhone = {
+  raw: string;
+  e164?: string;
+  valid: boolean;
+  type: PhoneType;
+  reason?: string;
+};
+
+// Uzbek numbers are +998 followed by a two-digit operator/area code and seven digits.
+const UZ_COUNTRY_CODE = "998";
+const UZ_MOBILE_CODES = new Set(["20", "33", "50", "77", "88", "90", "91", "93", "94", "95", "97", "98", "99"]);
+const UZ_LANDLINE_CODES = new Set(["55", "61", "62", "65", "66", "67", "69", "71", "72", "73", "74", "75", "76", "78", "79"]);
+
+function classifyUz(national: string): { valid: boolean; type: PhoneType; reason?: string } {
+  if (national.length !== 9) return { valid: false, type: "unknown", reason: `expected 9 digits after +998, got ${national.length}` };
+  const code = national.slice(0, 2);
+  if (UZ_MOBILE_CODES.has(code)) return { valid: true, type: "mobile" };
+  if (UZ_LANDLINE_CODES.has(code)) return { valid: true, type: "landline" };
+  return { valid: true, type: "unknown" };
+}
+
+/**
+ * Normalizes user-typed numbers ("+998 90 ...", "90 ...", "8-90-...", "0090...") to E.164.
+ * National numbers get `defaultCountryCode`; Uzbek numbers are also length-checked and
+ * classified as mobile or landline by operator code.
+ */
+export function normalizePhone(raw: string | undefined, defaultCountryCode = UZ_COUNTRY_CODE): NormalizedPhone | undefined {
+  if (!raw || !raw.trim()) return undefined;
+  const trimmed = raw.trim();
+  let digits = trimmed.replace(/\D/g, "");
+  const invalid = (reason: string): NormalizedPhone => ({ raw: trimmed, valid: false, type: "unknown", reason });
+
+  if (!digits) return invalid("no digits");
+  if (/^(\d)\1+$/.test(digits)) return invalid("all digits are the same");
+
+  let international: string;
+  if (trimmed.startsWith("+")) {
+    international = digits;
+  } else if (digits.startsWith("00")) {
+    international = digits.slice(2);
+  } else if (digits.startsWith(defaultCountryCode) && digits.length > 10) {
+    international = digits;
+  } else {
+    if (defaultCountryCode === UZ_COUNTRY_CODE) {
+      // Legacy domestic dialing: "8 90 123 45 67" and "8 371 234 56 78" (old three-digit area codes).
+      if (digits.length === 10 && digits.startsWith("8")) digits = digits.slice(1);
+      else if (digits.length === 11 && digits.startsWith("83")) digits = digits.slice(2);
+    }
+    international = `${defaultCountryCode}${digits.replace(/^0+/, "")}`;
+  }
+
+  if (international.length < 8) return invalid("too short");
+  if (international.length > 15) return invalid("too long");
+
+  const e164 = `+${international}`;
+  if (international.startsWith(UZ_COUNTRY_CODE)) {
+    const uz = classifyUz(international.slice(UZ_COUNTRY_CODE.length));
+    return { raw: trimmed, e164: uz.valid ? e164 : undefined, ...uz };
+  }
+  return { raw: trimmed, e164, valid: true, type: "unknown" };
+}
+
+export function toE164(raw: string | undefined, defaultCountryCode = UZ_COUNTRY_CODE): string | undefined {
+  return normalizePhone(raw, defaultCountryCode)?.e164;
+}
@@ -0,0 +1,326 @@
+import fs from "node:fs";
+import type pg from "pg";
+import type { TypeformWebhookPayload } from "./typeform";
+import { answerLabels, payloadChannel } from "./typeform";
+import { nextRotationPosition } from "./db";
+import { renderTemplate } from "./templates";
+import type { Issues } from "./validation";
+import { isObject, isPositiveInt } from "./validation";
+
+type StringMatch = string | string[];
+
+export type RoutingCondition = {
+  formId?: StringMatch;
+  /** Program key as produced by the mapping document's `children.programs`. */
+  program?: StringMatch;
+  utmSource?: StringMatch;
+  utmCampaign?: StringMatch;
+  answer?: { ref: string; equals?: StringMatch; contains?: string };
+  hidden?: { key: string; equals?: StringMatch; contains?: string };
+};
+
+export type RoutingAction = {
+  campus?: string;
+  responsibleUserId?: number;
+  team?: string;
+  pipelineId?: number;
+  statusId?: number;
+};
+
+/**
+ * Tags added to the lead when `when` matches; every matching rule applies. `lead` limits a
+ * rule to new leads or to repeat submissions on an existing one.
+ */
+export type TagRule = {
+  name?: string;
+  when?: RoutingCondition & { lead?: "new" | "repeat" };
+  /** `{form_id}`, `{utm_source}`, `{utm_campaign}`, `{program}` and `{channel}` are filled in; empty tags are dropped. */
+  tags: string[];
+};
+
+/** Tags for a submission, split by whether the lead turns out to be new or a repeat. */
+export type LeadTags = { always: string[]; new: string[]; repeat: string[] };
+
+export type RoutingDocument = {
+  version: 1;
+  fields?: {
+    leadCampus?: number;
+    contactCampus?: number;
+    contactManager?: number;
+  };
+  campuses: Record<string, { leadEnumId?: number; contactEnumId?: number }>;
+  teams: Record<string, { members: Array<{ userId: number; name?: string }> }>;
+  rules: Array<{ name?: string; when: RoutingCondition; then: RoutingAction }>;
+  default?: RoutingAction;
+  tags?: TagRule[];
+};
+
+export type RoutingInput = {
+  payload: TypeformWebhookPayload;
+  program?: string;
+};
+
+export type RoutingDecision = {
+  rule?: string;
+  campus?: string;
+  responsibleUserId?: number;
+  /** Team whose next member becomes responsible, if the submission creates a new lead. */
+  team?: string;
+  pipelineId?: number;
+  statusId?: number;
+  leadCustomFields: unknown[];
+  contactCustomFields: unknown[];
+};
+
+const DEFAULT_ROUTING_FIELDS: NonNullable<RoutingDocument["fields"]> = {
+  leadCampus: 996203,
+  contactCampus: 995933,
+  contactManager: 995939
+};
+
+export function routingFieldIds(routing: RoutingDocument): NonNullable<RoutingDocument["fields"]> {
+  return { ...DEFAULT_ROUTING_FIELDS, ...routing.fields };
+}
+
+export const EMPTY_ROUTING_DOCUMENT: RoutingDocument = { version: 1, campuses: {}, teams: {}, rules: [] };
+
+function isStringMatch(v: unknown): boolean {
+  if (typeof v === "string") return v.trim().length > 0;
+  return Array.isArray(v) && v.length > 0 && v.every((x) => typeof x === "string");
+}
+
+function validateFieldCondition(path: string, v: unknown, keyName: "ref" | "key", issues: Issues) {
+  if (!isObject(v)) return issues.push(`${path}: must be an object`);
+  if (typeof v[keyName] !== "string" || !v[keyName]) issues.push(`${path}.${keyName}: must be a non-empty string`);
+  if (v.equals === undefined && v.contains === undefined) issues.push(`${path}: needs "equals" or "contains"`);
+  if (v.equals !== undefined && !isStringMatch(v.equals)) issues.push(`${path}.equals: must be a string or array of strings`);
+  if (v.contains !== undefined && typeof v.contains !== "string") issues.push(`${path}.contains: must be a string`);
+}
+
+function validateCondition(path: string, when: unknown, issues: Issues) {
+  if (!isObject(when)) return issues.push(`${path}: must be an object`);
+  for (const k of ["formId", "program", "utmSource", "utmCampaign"]) {
+    if (when[k] !== undefined && !isStringMatch(when[k])) issues.push(`${path}.${k}: must be a string or array of strings`);
+  }
+  if (when.answer !== undefined) validateFieldCondition(`${path}.answer`, when.answer, "ref", issues);
+  if (when.hidden !== undefined) validateFieldCondition(`${path}.hidden`, when.hidden, "key", issues);
+}
+
+function validateAction(path: string, v: unknown, doc: Record<string, unknown>, issues: Issues) {
+  if (!isObject(v)) return issues.push(`${path}: must be an object`);
+  const campuses = isObject(doc.campuses) ? doc.campuses : {};
+  const teams = isObject(doc.teams) ? doc.teams : {};
+  if (v.campus !== undefined && (typeof v.campus !== "string" || !(v.campus in campuses))) {
+    issues.push(`${path}.campus: unknown campus ${JSON.stringify(v.campus)}`);
+  }
+  if (v.team !== undefined && (typeof v.team !== "string" || !(v.team in teams))) {
+    issues.push(`${path}.team: unknown team ${JSON.stringify(v.team)}`);
+  }
+  if (v.team !== undefined && v.responsibleUserId !== undefined) issues.push(`${path}: set either team or responsibleUserId, not both`);
+  for (const k of ["responsibleUserId", "pipelineId", "statusId"]) {
+    if (v[k] !== undefined && !isPositiveInt(v[k])) issues.push(`${path}.${k}: must be a positive integer`);
+  }
+}
+
+export function validateRoutingDocument(v: unknown): Issues {
+  const issues: Issues = [];
+  if (!isObject(v)) return ["document: must be a JSON object"];
+  if (v.version !== 1) issues.push(`version: unsupported version ${JSON.stringify(v.version)}, expected 1`);
+
+  if (v.fields !== undefined) {
+    if (!isObject(v.fields)) issues.push("fields: must be an object");
+    else {
+      for (const [k, id] of Object.entries(v.fields)) {
+        if (!["leadCampus", "contactCampus", "contactManager"].includes(k)) issues.push(`fields.${k}: unknown field`);
+        else if (!isPositiveInt(id)) issues.push(`fields.${k}: must be a positive integer`);
+      }
+    }
+  }
+
+  if (!isObject(v.campuses)) issues.push("campuses: must be an object");
+  else {
+    for (const [key, c] of Object.entries(v.campuses)) {
+      if (!isObject(c)) {
+        issues.push(`campuses.${key}: must be an object`);
+        continue;
+      }
+      for (const k of ["leadEnumId", "contactEnumId"]) {
+        if (c[k] !== undefined && !isPositiveInt(c[k])) issues.push(`campuses.${key}.${k}: must be a positive integer`);
+      }
+    }
+  }
+
+  if (!isObject(v.teams)) issues.push("teams: must be an object");
+  else {
+    for (const [key, t] of Object.entries(v.teams)) {
+      if (!isObject(t) || !Array.isArray(t.members) || !t.members.length) {
+        issues.push(`teams.${key}.members: must be a non-empty array`);
+        continue;
+      }
+      t.members.forEach((m, i) => {
+        if (!isObject(m) || !isPositiveInt(m.userId)) issues.push(`teams.${key}.members[${i}].userId: must be a positive integer`);
+        else if (m.name !== undefined && typeof m.name !== "string") issues.push(`teams.${key}.members[${i}].name: must be a string`);
+      });
+    }
+  }
+
+  if (!Array.isArray(v.rules)) issues.push("rules: must be an array");
+  else {
+    v.rules.forEach((r, i) => {
+      const p = `rules[${i}]`;
+      if (!isObject(r)) return issues.push(`${p}: must be an object`);
+      validateCondition(`${p}.when`, r.when, issues);
+      validateAction(`${p}.then`, r.then, v, issues);
+    });
+  }
+
+  if (v.tags !== undefined) {
+    if (!Array.isArray(v.tags)) issues.push("tags: must be an array");
+    else {
+      v.tags.forEach((r, i) => {
+        const p = `tags[${i}]`;
+        if (!isObject(r)) return issues.push(`${p}: must be an object`);
+        if (r.when !== undefined) {
+          validateCondition(`${p}.when`, r.when, issues);
+          if (isObject(r.when) && r.when.lead !== undefined && r.when.lead !== "new" && r.when.lead !== "repeat") {
+            issues.push(`${p}.when.lead: must be "new" or "repeat"`);
+          }
+        }
+        if (!Array.isArray(r.tags) || !r.tags.length || !r.tags.every((t) => typeof t === "string" && t.trim())) {
+          issues.push(`${p}.tags: must be a non-empty array of strings`);
+        }
+      });
+    }
+  }
+
+  if (v.default !== undefined) validateAction("default", v.default, v, issues);
+  return issues;
+}
+
+export function loadRoutingDocument(path: string | undefined): RoutingDocument {
+  if (!path) return EMPTY_ROUTING_DOCUMENT;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(path, "utf8"));
+  } catch (e) {
+    const message = e instanceof Error ? e.message : "Unknown error";
+    throw new Error(`Cannot read routing document ${path}: ${message}`);
+  }
+  const issues = validateRoutingDocument(parsed);
+  if (issues.length) throw new Error(`Invalid routing document ${path}:\n  - ${issues.join("\n  - ")}`);
+  return parsed as RoutingDocument;
+}
+
+function norm(s: string): string {
+  return s.trim().toLowerCase();
+}
+
+function matchesString(value: string | undefined, want: StringMatch): boolean {
+  if (value === undefined) return false;
+  const wants = Array.isArray(want) ? want : [want];
+  return wants.some((w) => norm(w) === norm(value));
+}
+
+function matchesField(values: string[], cond: { equals?: StringMatch; contains?: string }): boolean {
+  return values.some((v) => {
+    if (cond.equals !== undefined && !matchesString(v, cond.equals)) return false;
+    if (cond.contains !== undefined && !norm(v).includes(norm(cond.contains))) return false;
+    return true;
+  });
+}
+
+function answerValues(payload: TypeformWebhookPayload, ref: string): string[] {
+  const a = (payload.form_response.answers ?? []).find((x) => (x.field.ref ?? x.field.id) === ref || x.field.id === ref);
+  return a ? answerLabels(a) : [];
+}
+
+function matchesCondition(when: RoutingCondition, input: RoutingInput): boolean {
+  const { payload, program } = input;
+  const hidden = payload.form_response.hidden ?? {};
+  if (when.formId !== undefined && !matchesString(payload.form_response.form_id, when.formId)) return false;
+  if (when.program !== undefined && !matchesString(program, when.program)) return false;
+  if (when.utmSource !== undefined && !matchesString(hidden.utm_source, when.utmSource)) return false;
+  if (when.utmCampaign !== undefined && !matchesString(hidden.utm_campaign, when.utmCampaign)) return false;
+  if (when.answer && !matchesField(answerValues(payload, when.answer.ref), when.answer)) return false;
+  if (when.hidden) {
+    const v = hidden[when.hidden.key];
+    if (!matchesField(typeof v === "string" ? [v] : [], when.hidden)) return false;
+  }
+  return true;
+}
+
+/**
+ * Picks campus, responsible user or team and pipeline/status for a submission. The first
+ * matching rule wins, falling back to `default`. A team is only resolved to a member by
+ * `pickTeamMember`, once the sync knows it creates a new lead.
+ */
+export function routeSubmission(params: { routing: RoutingDocument; input: RoutingInput }): RoutingDecision {
+  const { routing, input } = params;
+  const rule = routing.rules.find((r) => matchesCondition(r.when, input));
+  const action = rule?.then ?? routing.default ?? {};
+
+  const decision: RoutingDecision = {
+    rule: rule ? (rule.name ?? `rules[${routing.rules.indexOf(rule)}]`) : routing.default ? "default" : undefined,
+    campus: action.campus,
+    responsibleUserId: action.responsibleUserId,
+    team: action.team,
+    pipelineId: action.pipelineId,
+    statusId: action.statusId,
+    leadCustomFields: [],
+    contactCustomFields: []
+  };
+
+  const campus = action.campus ? routing.campuses[action.campus] : undefined;
+  const fields = routingFieldIds(routing);
+  if (campus?.leadEnumId && fields.leadCampus) {
+    decision.leadCustomFields.push({ field_id: fields.leadCampus, values: [{ enum_id: campus.leadEnumId }] });
+  }
+  if (campus?.contactEnumId && fields.contactCampus) {
+    decision.contactCustomFields.push({ field_id: fields.contactCampus, values: [{ enum_id: campus.contactEnumId }] });
+  }
+  return decision;
+}
+
+/** Takes the team's next member round-robin through `routing_rotation`. */
+export async function pickTeamMember(params: {
+  pool: pg.Pool;
+  routing: RoutingDocument;
+  team: string;
+}): Promise<{ userId: number; name?: string }> {
+  const { pool, routing, team } = params;
+  const members = routing.teams[team].members;
+  const position = await nextRotationPosition(pool, team);
+  const member = members[position % members.length];
+  return { userId: member.userId, name: member.name };
+}
+
+/** Contact fields that record the picked manager. */
+export function managerContactFields(routing: RoutingDocument, managerName: string | undefined): unknown[] {
+  const field = routingFieldIds(routing).contactManager;
+  return managerName && field ? [{ field_id: field, values: [{ value: managerName }] }] : [];
+}
+
+/** Evaluates the `tags` rules; see `TagRule`. */
+export function leadTags(routing: RoutingDocument, input: RoutingInput): LeadTags {
+  const { payload, program } = input;
+  const hidden = payload.form_response.hidden ?? {};
+  const vars = {
+    form_id: payload.form_response.form_id,
+    utm_source: hidden.utm_source,
+    utm_campaign: hidden.utm_campaign,
+    program,
+    channel: payloadChannel(payload)
+  };
+  const out: LeadTags = { always: [], new: [], repeat: [] };
+  for (const rule of routing.tags ?? []) {
+    if (rule.when && !matchesCondition(rule.when, input)) continue;
+    // A tag whose placeholder has no value is dropped rather than added half-filled.
+    const tags = rule.tags
+      .filter((t) => [...t.matchAll(/\{(\w+)\}/g)].every((m) => vars[m[1] as keyof typeof vars]))
+      .map((t) => renderTemplate(t, vars))
+      .filter(Boolean);
+    out[rule.when?.lead ?? "always"].push(...tags);
+  }
+  const unique = (tags: string[]) => Array.from(new Map(tags.map((t) => [t.toLowerCase(), t])).values());
+  return { always: unique(out.always), new: unique(out.new), repeat: unique(out.repeat) };
+}
@@ -0,0 +1,42 @@
+import { createDb } from "./db";
+import { getConfig } from "./config";
+import { createAmoClient } from "./amocrm";
+import { syncAmoSchema } from "./amoSchema";
+import { loadMappingDocument } from "./mappingConfig";
+import { loadRoutingDocument } from "./routing";
+import { loadSourcesDocument } from "./sources";
+
+/**
+ * `npm run schema:sync`: refreshes the cached amoCRM custom fields and checks the mapping
+ * and routing documents against them. Exits non-zero when a mapping does not fit.
+ */
+async function main() {
+  const config = getConfig();
+  const mapping = loadMappingDocument({ path: config.mapping.documentPath, legacyFieldMap: config.mapping.legacyFieldMap });
+  const routing = loadRoutingDocument(config.routing.documentPath);
+  const sourceMappings = Object.fromEntries(
+    loadSourcesDocument(config.typeform.sourcesPath)
+      .filter((s) => s.mappingPath)
+      .map((s) => [s.key, loadMappingDocument({ path: s.mappingPath })])
+  );
+  const db = await createDb(config.databaseUrl);
+  const amo = createAmoClient({ ...config.amocrm, phoneDefaultCountryCode: config.phone.defaultCountryCode });
+
+  try {
+    const report = await syncAmoSchema({ pool: db.pool, amo, mapping, sourceMappings, routing, attribution: config.attribution });
+    console.log(report.changes.length ? `Schema changes since last sync:\n  - ${report.changes.join("\n  - ")}` : "No schema changes.");
+    if (report.issues.length) {
+      console.error(`Mapping does not match amoCRM:\n  - ${report.issues.join("\n  - ")}`);
+      process.exitCode = 1;
+    } else {
+      console.log("All mapped fields and enum ids exist in amoCRM.");
+    }
+  } finally {
+    await db.pool.end();
+  }
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
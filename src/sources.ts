@@ -0,0 +1,105 @@
+import fs from "node:fs";
+import { typeformIsSignatureValid } from "./config";
+import type { Issues } from "./validation";
+import { isNonEmptyString, isObject, isPositiveInt } from "./validation";
+
+/** A webhook secret; during rotation the old one gets `expiresAt` and both are accepted until then. */
+export type WebhookSecret = {
+  value: string;
+  expiresAt?: Date;
+  /** Where the secret came from (env var name or list position), for logs. */
+  label: string;
+};
+
+/** One Typeform workspace, campus or partner landing page with its own webhook endpoint. */
+export type TypeformSource = {
+  key: string;
+  secrets: WebhookSecret[];
+  /** When set, only these forms are accepted on this endpoint. */
+  formIds?: string[];
+  /** Mapping document used instead of the global one. */
+  mappingPath?: string;
+  pipelineId?: number;
+  statusId?: number;
+};
+
+function validateSecret(path: string, v: unknown, env: NodeJS.ProcessEnv, issues: Issues) {
+  if (!isObject(v)) return issues.push(`${path}: must be an object`);
+  const hasValue = isNonEmptyString(v.value);
+  const hasEnv = isNonEmptyString(v.env);
+  if (hasValue === hasEnv) issues.push(`${path}: must have exactly one of "value" or "env"`);
+  if (hasEnv && !env[v.env as string]?.trim()) issues.push(`${path}.env: env var ${v.env as string} is not set`);
+  if (v.expiresAt !== undefined && (typeof v.expiresAt !== "string" || Number.isNaN(Date.parse(v.expiresAt)))) {
+    issues.push(`${path}.expiresAt: must be an ISO date`);
+  }
+}
+
+export function validateSourcesDocument(v: unknown, env: NodeJS.ProcessEnv = process.env): Issues {
+  const issues: Issues = [];
+  if (!isObject(v)) return ["document: must be a JSON object"];
+  if (v.version !== 1) issues.push(`version: unsupported version ${JSON.stringify(v.version)}, expected 1`);
+  if (!Array.isArray(v.sources)) return [...issues, "sources: must be an array"];
+
+  const keys = new Set<string>();
+  v.sources.forEach((s, i) => {
+    const p = `sources[${i}]`;
+    if (!isObject(s)) return issues.push(`${p}: must be an object`);
+    if (typeof s.key !== "string" || !/^[a-z0-9][a-z0-9_-]*$/.test(s.key)) {
+      issues.push(`${p}.key: must be lowercase letters, digits, "-" or "_"`);
+    } else if (keys.has(s.key)) {
+      issues.push(`${p}.key: duplicate key "${s.key}"`);
+    } else {
+      keys.add(s.key);
+    }
+    if (!Array.isArray(s.secrets) || !s.secrets.length) issues.push(`${p}.secrets: must be a non-empty array`);
+    else s.secrets.forEach((secret, j) => validateSecret(`${p}.secrets[${j}]`, secret, env, issues));
+    if (s.formIds !== undefined && (!Array.isArray(s.formIds) || !s.formIds.length || !s.formIds.every(isNonEmptyString))) {
+      issues.push(`${p}.formIds: must be a non-empty array of strings`);
+    }
+    if (s.mappingPath !== undefined && !isNonEmptyString(s.mappingPath)) issues.push(`${p}.mappingPath: must be a non-empty string`);
+    for (const k of ["pipelineId", "statusId"]) {
+      if (s[k] !== undefined && !isPositiveInt(s[k])) issues.push(`${p}.${k}: must be a positive integer`);
+    }
+  });
+  return issues;
+}
+
+export function loadSourcesDocument(path: string | undefined, env: NodeJS.ProcessEnv = process.env): TypeformSource[] {
+  if (!path) return [];
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(path, "utf8"));
+  } catch (e) {
+    const message = e instanceof Error ? e.message : "Unknown error";
+    throw new Error(`Cannot read webhook sources document ${path}: ${message}`);
+  }
+  const issues = validateSourcesDocument(parsed, env);
+  if (issues.length) throw new Error(`Invalid webhook sources document ${path}:\n  - ${issues.join("\n  - ")}`);
+
+  const doc = parsed as { sources: Array<Record<string, unknown>> };
+  return doc.sources.map((s) => ({
+    key: s.key as string,
+    secrets: (s.secrets as Array<{ value?: string; env?: string; expiresAt?: string }>).map((secret, i) => ({
+      value: secret.value ?? (env[secret.env as string] as string).trim(),
+      expiresAt: secret.expiresAt ? new Date(secret.expiresAt) : undefined,
+      label: secret.env ?? `secrets[${i}]`
+    })),
+    formIds: s.formIds as string[] | undefined,
+    mappingPath: s.mappingPath as string | undefined,
+    pipelineId: s.pipelineId as number | undefined,
+    statusId: s.statusId as number | undefined
+  }));
+}
+
+/** Returns the unexpired secret that signed the body, if any. */
+export function matchWebhookSecret(params: {
+  secrets: WebhookSecret[];
+  rawBody: Buffer;
+  signatureHeader: string | undefined;
+  now?: Date;
+}): WebhookSecret | undefined {
+  const { secrets, rawBody, signatureHeader, now = new Date() } = params;
+  return secrets
+    .filter((s) => !s.expiresAt || s.expiresAt > now)
+    .find((s) => typeformIsSignatureValid({ secret: s.value, rawBody, signatureHeader }));
+}
@@ -0,0 +1,395 @@
+import type pg from "pg";
+import type { AmoClient, ContactInput, ContactMatch, LeadDecision, SyncCheckpoint, SyncProgress } from "./amocrm";
+import type { AttributionTouchRow, SyncSagaRow } from "./db";
+import {
+  finishSyncSaga,
+  getContactTouchRange,
+  getLatestSubmissionByLandingId,
+  getOpenSyncSaga,
+  getSubmissionByToken,
+  linkAttributionTouch,
+  recordAttributionTouch,
+  recordPendingSubmission,
+  saveSyncSagaSteps,
+  upsertSubmission
+} from "./db";
+import type { TypeformWebhookPayload } from "./typeform";
+import { extractContactBits, payloadChannel, typeformEventKind } from "./typeform";
+import type { AppConfig } from "./config";
+import { buildCustomFields, mappedContactBits, resolveProgram } from "./mapping";
+import type { MappingDocument, NoteLocale } from "./mappingConfig";
+import { renderLeadNote } from "./notes";
+import type { EnumCatalog } from "./enumResolver";
+import { normalizePhone } from "./phone";
+import { normalizeLanguage, normalizeTelegram } from "./contactExtras";
+import type { RoutingDocument } from "./routing";
+import { leadTags, managerContactFields, pickTeamMember, routeSubmission } from "./routing";
+import { renderTemplate } from "./templates";
+import type { WorkingHours } from "./workingHours";
+import { addWorkingMinutes } from "./workingHours";
+import { extractTouch, formatTouch } from "./attribution";
+
+/** Long-lived dependencies shared by every sync run. */
+export type SyncContext = {
+  pool: pg.Pool;
+  amo: AmoClient;
+  mapping: MappingDocument;
+  /** Enum options from the cached amoCRM schema, for label-based enum mapping. */
+  enums: EnumCatalog;
+  routing: RoutingDocument;
+  phoneDefaultCountryCode: string;
+  partialResponses: AppConfig["typeform"]["partialResponses"];
+  followUpTasks: AppConfig["amocrm"]["followUpTasks"];
+  workingHours: WorkingHours;
+  /** Note language when the form's note template sets none. */
+  noteLocale: NoteLocale;
+  attribution: AppConfig["attribution"];
+  /** Webhook source the payload came in through; its pipeline applies when routing sets none. */
+  source?: { key: string; pipelineId?: number; statusId?: number };
+};
+
+export type SyncResult = {
+  leadId?: number;
+  contactId?: number;
+  deduped: boolean;
+  /** Set when the event was acknowledged without touching amoCRM. */
+  skipped?: "ignored_event" | "partial_after_complete";
+};
+
+function sagaProgress(saga: SyncSagaRow | undefined): SyncProgress {
+  if (!saga) return { steps: {} };
+  return {
+    leadId: saga.lead_id ? Number(saga.lead_id) : undefined,
+    contactId: saga.contact_id ? Number(saga.contact_id) : undefined,
+    contactMatch: (saga.contact_match as ContactMatch | null) ?? undefined,
+    leadDecision: (saga.lead_decision as LeadDecision | null) ?? undefined,
+    assignee: saga.assignee ?? undefined,
+    steps: saga.steps
+  };
+}
+
+function touchSummary(row: AttributionTouchRow): string {
+  return formatTouch({ source: row.source, medium: row.medium, utmCampaign: row.utm_campaign ?? undefined, touchedAt: row.touched_at });
+}
+
+/**
+ * Records the submission's touch and returns the lead fields with the contact's first and
+ * last touch, so a repeat lead still shows the campaign that first brought the family.
+ * Runs before the amoCRM write: earlier touches are found by the contact's phone, email
+ * or Telegram as well as by a contact id already known for the submission.
+ */
+async function prepareAttribution(params: {
+  pool: pg.Pool;
+  attribution: AppConfig["attribution"];
+  payload: TypeformWebhookPayload;
+  contact: ContactInput;
+  knownContactId?: number;
+}): Promise<{ first: string; last: string; leadCustomFields: unknown[] }> {
+  const { pool, attribution, payload, contact, knownContactId } = params;
+  const keys = {
+    amoContactId: knownContactId,
+    phone: contact.phone,
+    email: contact.email?.trim().toLowerCase(),
+    telegram: contact.telegramUsername ? `@${contact.telegramUsername.toLowerCase()}` : contact.telegramId
+  };
+  const submittedAt = new Date(payload.form_response.submitted_at ?? Date.now());
+  const touch = await recordAttributionTouch({
+    pool,
+    responseToken: payload.form_response.token,
+    formId: payload.form_response.form_id,
+    channel: payloadChannel(payload),
+    contact: keys,
+    touch: extractTouch(payload),
+    touchedAt: Number.isNaN(submittedAt.getTime()) ? new Date() : submittedAt
+  });
+  const range = await getContactTouchRange(pool, keys);
+  const first = touchSummary(range?.first ?? touch);
+  const last = touchSummary(range?.last ?? touch);
+  return {
+    first,
+    last,
+    leadCustomFields: [
+      ...(attribution.firstTouchFieldId ? [{ field_id: attribution.firstTouchFieldId, values: [{ value: first }] }] : []),
+      ...(attribution.lastTouchFieldId ? [{ field_id: attribution.lastTouchFieldId, values: [{ value: last }] }] : [])
+    ]
+  };
+}
+
+export async function syncTypeformPayload(
+  params: SyncContext & {
+    payload: TypeformWebhookPayload;
+    /** Job that runs this sync; recorded on the saga for troubleshooting. */
+    jobId?: string;
+    skipEventDedupe?: boolean;
+  }
+): Promise<SyncResult> {
+  const {
+    pool,
+    amo,
+    mapping,
+    enums,
+    routing,
+    phoneDefaultCountryCode,
+    partialResponses,
+    followUpTasks,
+    workingHours,
+    noteLocale,
+    attribution,
+    source,
+    payload,
+    jobId,
+    skipEventDedupe
+  } = params;
+  const responseToken = payload.form_response.token;
+  const formId = payload.form_response.form_id;
+  const kind = typeformEventKind(payload.event_type);
+
+  if (kind === "unknown" || (kind === "partial" && partialResponses.mode === "ignore")) {
+    console.log(
+      JSON.stringify({ msg: "typeform_event_ignored", event_id: payload.event_id, event_type: payload.event_type, token: responseToken })
+    );
+    return { deduped: false, skipped: "ignored_event" };
+  }
+
+  const existingByToken = await getSubmissionByToken(pool, responseToken);
+  const landingId = payload.form_response.landing_id;
+  // A row without a lead is the pending record of an attempt that failed before amoCRM answered;
+  // it must not hide the landing_id match that attempt resolved to.
+  const syncedByToken = existingByToken?.amo_lead_id ? existingByToken : undefined;
+  const existing =
+    syncedByToken ?? (landingId ? await getLatestSubmissionByLandingId({ pool, formId, landingId }) : undefined);
+
+  if (!skipEventDedupe && existing && payload.event_id && existing.last_event_id === payload.event_id) {
+    console.log(
+      JSON.stringify({
+        msg: "typeform_webhook_deduped",
+        event_id: payload.event_id,
+        form_id: formId,
+        token: responseToken,
+        amo_lead_id: existing.amo_lead_id
+      })
+    );
+    return { leadId: existing.amo_lead_id ? Number(existing.amo_lead_id) : undefined, deduped: true };
+  }
+
+  if (kind === "partial" && existing?.response_kind === "complete") {
+    // Partial events can arrive after the full response; never downgrade a finished submission.
+    console.log(
+      JSON.stringify({
+        msg: "typeform_partial_after_complete",
+        event_id: payload.event_id,
+        form_id: formId,
+        token: responseToken,
+        amo_lead_id: existing.amo_lead_id
+      })
+    );
+    return {
+      leadId: existing.amo_lead_id ? Number(existing.amo_lead_id) : undefined,
+      deduped: false,
+      skipped: "partial_after_complete"
+    };
+  }
+
+  if (!existingByToken) {
+    await recordPendingSubmission({
+      pool,
+      formId,
+      responseToken,
+      landingId,
+      submittedAt: payload.form_response.submitted_at,
+      sourceKey: source?.key,
+      channel: payloadChannel(payload),
+      payload
+    });
+  }
+
+  // An open saga means an earlier attempt stopped part-way; resume after its last completed step.
+  const progress = sagaProgress(await getOpenSyncSaga(pool, responseToken));
+  if (Object.keys(progress.steps).length) {
+    console.log(
+      JSON.stringify({
+        msg: "amocrm_sync_resumed",
+        event_id: payload.event_id,
+        form_id: formId,
+        token: responseToken,
+        job_id: jobId,
+        completed_steps: Object.keys(progress.steps)
+      })
+    );
+  }
+  const checkpoint: SyncCheckpoint = {
+    progress,
+    complete: (steps, state) =>
+      saveSyncSagaSteps({
+        pool,
+        responseToken,
+        jobId,
+        steps,
+        leadId: state?.leadId,
+        contactId: state?.contactId,
+        contactMatch: state?.contactMatch,
+        leadDecision: state?.leadDecision,
+        assignee: state?.assignee
+      })
+  };
+
+  const upgrading = kind === "complete" && existing?.response_kind === "partial";
+  const { phone: rawPhone, telegramUsername, telegramId, language, ...contactBits } = extractContactBits(payload);
+  const phone = normalizePhone(rawPhone, phoneDefaultCountryCode);
+  // A mapped Telegram question may hold a handle or an id; it wins over the hidden fields.
+  const mapped = mappedContactBits(payload, mapping);
+  const telegram = {
+    ...normalizeTelegram(telegramId),
+    ...normalizeTelegram(telegramUsername),
+    ...normalizeTelegram(mapped.telegram)
+  };
+  const contact = {
+    ...contactBits,
+    phone: phone?.e164,
+    phoneType: phone?.type,
+    telegramUsername: telegram.username,
+    telegramId: telegram.id,
+    language: normalizeLanguage(mapped.language ?? language)
+  };
+  if (phone && !phone.valid) {
+    console.log(
+      JSON.stringify({ msg: "typeform_invalid_phone", form_id: formId, token: responseToken, reason: phone.reason })
+    );
+  }
+  const customFields = buildCustomFields(payload, mapping, enums);
+  if (customFields.unmatched.length) {
+    console.log(
+      JSON.stringify({ msg: "typeform_enum_unmatched", form_id: formId, token: responseToken, unmatched: customFields.unmatched })
+    );
+  }
+  const existingLeadId = existing?.amo_lead_id ? Number(existing.amo_lead_id) : undefined;
+  const typeformSummary = renderLeadNote({
+    payload,
+    mapping,
+    contact,
+    locale: noteLocale,
+    status: kind === "partial" ? "partial" : upgrading ? "upgraded" : undefined,
+    // The lead already has the full note of this submission; an update only lists what changed.
+    previous: existingLeadId && !upgrading ? ((existing?.last_payload as TypeformWebhookPayload | null) ?? undefined) : undefined,
+    warnings: {
+      invalidPhone: phone && !phone.valid ? phone : undefined,
+      unmatched: customFields.unmatched
+    }
+  });
+  const program = resolveProgram(payload, mapping);
+  const route = routeSubmission({ routing, input: { payload, program } });
+  // A retry reuses the member picked by the failed attempt instead of taking another turn.
+  let assignee = progress.assignee;
+  const team = route.team;
+  const pickAssignee = team
+    ? async () => {
+        if (!assignee) {
+          assignee = await pickTeamMember({ pool, routing, team });
+          await checkpoint.complete([], { assignee });
+        }
+        return { responsibleUserId: assignee.userId, contactCustomFields: managerContactFields(routing, assignee.name) };
+      }
+    : undefined;
+
+  const routedAssignment = {
+    responsibleUserId: route.responsibleUserId,
+    pipelineId: route.pipelineId ?? source?.pipelineId,
+    statusId: route.pipelineId ? route.statusId : (route.statusId ?? source?.statusId)
+  };
+  const abandoned = partialResponses.mode === "lead" && partialResponses.abandonedStatusId;
+  const assignment =
+    kind === "partial" && abandoned
+      ? {
+          responsibleUserId: route.responsibleUserId,
+          pipelineId: partialResponses.abandonedPipelineId ?? route.pipelineId,
+          statusId: partialResponses.abandonedStatusId
+        }
+      : routedAssignment;
+
+  let followUpTask: { text: string; dueAt: Date; taskTypeId: number } | undefined;
+  if (kind === "partial" && partialResponses.mode === "task") {
+    followUpTask = {
+      text: "Typeform was started but not finished: follow up with the contact",
+      dueAt: addWorkingMinutes(new Date(), partialResponses.taskDelayMinutes, workingHours),
+      taskTypeId: followUpTasks.taskTypeId
+    };
+  } else if (kind === "complete" && followUpTasks.enabled) {
+    const text = renderTemplate(followUpTasks.text, {
+      name: contact.name,
+      phone: contact.phone,
+      email: contact.email,
+      telegram: contact.telegramUsername ? `@${contact.telegramUsername}` : contact.telegramId,
+      channel: payloadChannel(payload),
+      form_id: formId,
+      program
+    });
+    followUpTask = { text, dueAt: addWorkingMinutes(new Date(), followUpTasks.dueMinutes, workingHours), taskTypeId: followUpTasks.taskTypeId };
+  }
+
+  const touches = await prepareAttribution({
+    pool,
+    attribution,
+    payload,
+    contact,
+    knownContactId: progress.contactId ?? (existing?.amo_contact_id ? Number(existing.amo_contact_id) : undefined)
+  });
+
+  const { leadId, contactId, contactMatch, leadDecision } = await amo.createOrUpdateByTypeform({
+    pool,
+    existingLeadId,
+    existingContactId: existing?.amo_contact_id ? Number(existing.amo_contact_id) : undefined,
+    typeformSummary,
+    leadCustomFields: [...customFields.lead, ...route.leadCustomFields, ...touches.leadCustomFields],
+    contactCustomFields: [...customFields.contact, ...route.contactCustomFields],
+    assignment,
+    promote: upgrading && abandoned ? { fromStatusId: abandoned, to: routedAssignment } : undefined,
+    followUpTask,
+    tags: leadTags(routing, { payload, program }),
+    pickAssignee,
+    contact,
+    checkpoint
+  });
+  await linkAttributionTouch({ pool, responseToken, amoContactId: contactId, amoLeadId: leadId });
+
+  await upsertSubmission({
+    pool,
+    formId,
+    responseToken,
+    landingId,
+    submittedAt: payload.form_response.submitted_at,
+    lastEventId: payload.event_id,
+    lastEventType: payload.event_type,
+    amoLeadId: leadId,
+    amoContactId: contactId,
+    contactMatch: contactMatch?.kind,
+    contactMatchReason: contactMatch?.reason,
+    leadDecision,
+    responseKind: kind === "partial" ? "partial" : "complete",
+    sourceKey: source?.key,
+    channel: payloadChannel(payload),
+    lastPayload: payload
+  });
+  await finishSyncSaga(pool, responseToken);
+
+  console.log(
+    JSON.stringify({
+      msg: "typeform_webhook_processed",
+      event_id: payload.event_id,
+      form_id: formId,
+      token: responseToken,
+      source: source?.key,
+      channel: payloadChannel(payload),
+      amo_lead_id: leadId,
+      amo_contact_id: contactId,
+      contact_match: contactMatch?.kind,
+      lead_decision: leadDecision,
+      response_kind: kind,
+      upgraded_partial: upgrading,
+      first_touch: touches.first,
+      last_touch: touches.last,
+      routing_rule: route.rule,
+      responsible_user_id: assignee?.userId ?? route.responsibleUserId
+    })
+  );
+  return { leadId, contactId, deduped: false };
+}
@@ -0,0 +1,7 @@
+/** Replaces `{name}` placeholders; unknown or empty ones become an empty string. */
+export function renderTemplate(template: string, vars: Record<string, string | number | undefined>): string {
+  return template
+    .replace(/\{(\w+)\}/g, (_, key: string) => String(vars[key] ?? ""))
+    .replace(/[ \t]{2,}/g, " ")
+    .trim();
+}
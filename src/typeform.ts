@@ -1,3 +1,5 @@
+import { INBOUND_FORM_ID } from "./mappingConfig";
+
 export type TypeformWebhookPayload = {
   event_id?: string;
   event_type?: string;
@@ -10,22 +12,101 @@ export type TypeformWebhookPayload = {
     definition?: {
       fields?: Array<{ id: string; ref?: string; title?: string }>;
     };
-    answers?: Array<{
-      type: string;
-      field: { id: string; ref?: string };
-      text?: string;
-      email?: string;
-      phone_number?: string;
-      boolean?: boolean;
-      number?: number;
-      date?: string;
-      choice?: { label?: string; other?: string };
-      choices?: { labels?: string[]; other?: string };
-    }>;
+    answers?: TypeformAnswer[];
   };
 };
 
-export function extractContactBits(payload: TypeformWebhookPayload): { name?: string; email?: string; phone?: string } {
+/**
+ * One answer of a webhook payload. `type` says which value property is set: text, email,
+ * phone_number, url, file_url, boolean, number (also opinion scale and rating), date,
+ * choice, choices (also ranking, in rank order), payment or multi_format. Matrix rows
+ * arrive as separate choice answers. `field.type` is the question type.
+ */
+export type TypeformAnswer = {
+  type: string;
+  field: { id: string; ref?: string; type?: string };
+  text?: string;
+  email?: string;
+  phone_number?: string;
+  url?: string;
+  file_url?: string;
+  boolean?: boolean;
+  number?: number;
+  date?: string;
+  choice?: { id?: string; ref?: string; label?: string; other?: string };
+  choices?: { ids?: string[]; refs?: string[]; labels?: string[]; other?: string };
+  payment?: { amount?: string; last4?: string; name?: string; success?: boolean };
+  multi_format?: { audio_url?: string; video_url?: string; file_url?: string; transcription?: string; text?: string };
+};
+
+/** Selected choice labels, with "Other" free text as an extra label. */
+export function answerLabels(a: TypeformAnswer): string[] {
+  if (a.choices) return [...(a.choices.labels ?? []), ...(a.choices.other ? [a.choices.other] : [])];
+  if (a.choice) {
+    const label = a.choice.label ?? a.choice.other;
+    return label ? [label] : [];
+  }
+  const s = answerText(a);
+  return s ? [s] : [];
+}
+
+function paymentText(p: NonNullable<TypeformAnswer["payment"]>): string {
+  const details = [p.name, p.last4 ? `card •••• ${p.last4}` : undefined, p.success === false ? "failed" : "paid"].filter(Boolean);
+  return `${p.amount ?? "?"} (${details.join(", ")})`;
+}
+
+function multiFormatText(m: NonNullable<TypeformAnswer["multi_format"]>): string | undefined {
+  const parts = [m.text ?? m.transcription, m.video_url, m.audio_url, m.file_url].filter((v): v is string => !!v);
+  return parts.length ? parts.join(" ") : undefined;
+}
+
+/** Plain-text value of any answer type; file uploads and recordings become their URLs. */
+export function answerText(a: TypeformAnswer): string | undefined {
+  if (a.text) return a.text;
+  if (a.email) return a.email;
+  if (a.phone_number) return a.phone_number;
+  if (a.url) return a.url;
+  if (a.file_url) return a.file_url;
+  if (typeof a.boolean === "boolean") return a.boolean ? "true" : "false";
+  if (typeof a.number === "number") return String(a.number);
+  if (a.date) return a.date;
+  if (a.choice) return a.choice.label ?? a.choice.other;
+  if (a.choices) {
+    const labels = answerLabels(a);
+    if (!labels.length) return undefined;
+    return a.field.type === "ranking" ? labels.map((l, i) => `${i + 1}. ${l}`).join(", ") : labels.join(", ");
+  }
+  if (a.payment) return paymentText(a.payment);
+  if (a.multi_format) return multiFormatText(a.multi_format);
+  return undefined;
+}
+
+/** Channel of a stored payload: leads from `/webhooks/leads` carry it as a hidden field. */
+export function payloadChannel(payload: TypeformWebhookPayload): string {
+  if (payload.form_response.form_id !== INBOUND_FORM_ID) return "typeform";
+  return payload.form_response.hidden?.channel ?? "unknown";
+}
+
+export type TypeformEventKind = "complete" | "partial" | "unknown";
+
+/** Payloads without `event_type` predate partial responses and are full submissions. */
+export function typeformEventKind(eventType: string | undefined): TypeformEventKind {
+  if (!eventType || eventType === "form_response") return "complete";
+  if (eventType === "form_response_partial") return "partial";
+  return "unknown";
+}
+
+export type ContactBits = {
+  name?: string;
+  email?: string;
+  phone?: string;
+  telegramUsername?: string;
+  telegramId?: string;
+  language?: string;
+};
+
+/** Raw contact values from the answers, then the hidden fields; normalizing is up to the caller. */
+export function extractContactBits(payload: TypeformWebhookPayload): ContactBits {
   const answers = payload.form_response.answers ?? [];
   let email: string | undefined;
   let phone: string | undefined;
@@ -42,42 +123,12 @@ export function extractContactBits(payload: TypeformWebhookPayload): { name?: st
   if (!phone && hidden.phone) phone = hidden.phone;
   if (!name && hidden.name) name = hidden.name;
 
-  return { name, email, phone };
-}
-
-export function stringifyAnswers(payload: TypeformWebhookPayload): string {
-  const answers = payload.form_response.answers ?? [];
-  const definitionFields = payload.form_response.definition?.fields ?? [];
-  const titleByKey = new Map<string, string>();
-  for (const f of definitionFields) {
-    if (f.ref && f.title) titleByKey.set(f.ref, f.title);
-    if (f.id && f.title) titleByKey.set(f.id, f.title);
-  }
-
-  const parts: string[] = [];
-  for (const a of answers) {
-    const key = a.field.ref ?? a.field.id;
-    const title = titleByKey.get(key);
-    let value: string | undefined;
-    if (a.text) value = a.text;
-    else if (a.email) value = a.email;
-    else if (a.phone_number) value = a.phone_number;
-    else if (typeof a.boolean === "boolean") value = a.boolean ? "true" : "false";
-    else if (typeof a.number === "number") value = String(a.number);
-    else if (a.date) value = a.date;
-    else if (a.choice?.label) value = a.choice.label;
-    else if (a.choices?.labels?.length) value = a.choices.labels.join(", ");
-    else value = "(unsupported)";
-    parts.push(`${title ?? key}: ${value}`);
-  }
-
-  const hidden = payload.form_response.hidden ?? {};
-  const hiddenKeys = Object.keys(hidden);
-  if (hiddenKeys.length) {
-    parts.push("");
-    parts.push("hidden:");
-    for (const k of hiddenKeys.sort()) parts.push(`${k}: ${hidden[k]}`);
-  }
-
-  return parts.join("\n");
+  return {
+    name,
+    email,
+    phone,
+    telegramUsername: hidden.tg_username || undefined,
+    telegramId: hidden.tg_id || undefined,
+    language: hidden.lang || hidden.language || hidden.locale || undefined
+  };
 }
@@ -0,0 +1,24 @@
+/** Path-qualified problems found in a config document or request body, e.g. `rules[0].when: must be an object`. */
+export type Issues = string[];
+
+export function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+export function isPositiveInt(v: unknown): v is number {
+  return typeof v === "number" && Number.isInteger(v) && v > 0;
+}
+
+export function isNonEmptyString(v: unknown): v is string {
+  return typeof v === "string" && v.trim().length > 0;
+}
+
+/** An IANA zone name the runtime's Intl data knows, e.g. "Asia/Tashkent". */
+export function isTimeZone(v: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: v });
+    return true;
+  } catch {
+    return false;
+  }
+}
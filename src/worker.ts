@@ -0,0 +1,136 @@
+import crypto from "node:crypto";
+import os from "node:os";
+import type pg from "pg";
+import type { AppConfig } from "./config";
+import type { TypeformJobRow } from "./db";
+import {
+  claimNextTypeformJob,
+  completeTypeformJob,
+  failTypeformJob,
+  heartbeatTypeformJob,
+  releaseStaleTypeformJobs
+} from "./db";
+
+export type Worker = {
+  stop: () => Promise<void>;
+};
+
+function backoffDelayMs(config: AppConfig["worker"], attempts: number): number {
+  const exp = config.backoffBaseMs * 2 ** Math.max(0, attempts - 1);
+  const capped = Math.min(exp, config.backoffMaxMs);
+  // +/-20% jitter so jobs that failed together do not retry in lockstep.
+  return Math.round(capped * (0.8 + Math.random() * 0.4));
+}
+
+/** The job was released as stale and claimed again; its status now belongs to the new owner. */
+export function logLockLost(job: Pick<TypeformJobRow, "id" | "response_token">, lockedBy: string) {
+  console.error(
+    JSON.stringify({ msg: "typeform_job_lock_lost", job_id: job.id, token: job.response_token, locked_by: lockedBy })
+  );
+}
+
+/**
+ * Refreshes `locked_at` of a running job every third of `staleLockMs`, so a slow sync is not
+ * released as stale and claimed by a second worker. Returns the function that stops it.
+ */
+export function holdTypeformJobLock(params: {
+  pool: pg.Pool;
+  job: Pick<TypeformJobRow, "id" | "response_token">;
+  lockedBy: string;
+  staleLockMs: number;
+}): () => void {
+  const { pool, job, lockedBy, staleLockMs } = params;
+  const timer = setInterval(() => {
+    heartbeatTypeformJob(pool, job.id, lockedBy)
+      .then((held) => {
+        if (held) return;
+        clearInterval(timer);
+        logLockLost(job, lockedBy);
+      })
+      .catch((e) => {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        console.error(JSON.stringify({ msg: "typeform_job_heartbeat_error", job_id: job.id, error: message }));
+      });
+  }, Math.max(1000, Math.floor(staleLockMs / 3)));
+  timer.unref();
+  return () => clearInterval(timer);
+}
+
+export function startTypeformWorker(params: {
+  pool: pg.Pool;
+  config: AppConfig["worker"];
+  handle: (job: TypeformJobRow) => Promise<void>;
+}): Worker {
+  const { pool, config, handle } = params;
+  const workerId = `${os.hostname()}:${process.pid}:${crypto.randomUUID().slice(0, 8)}`;
+  let stopped = false;
+  let timer: NodeJS.Timeout | undefined;
+  let running: Promise<void> | undefined;
+
+  async function runJob(job: TypeformJobRow): Promise<void> {
+    const stopHeartbeat = holdTypeformJobLock({ pool, job, lockedBy: workerId, staleLockMs: config.staleLockMs });
+    try {
+      await handle(job);
+      stopHeartbeat();
+      if (!(await completeTypeformJob(pool, job.id, workerId))) logLockLost(job, workerId);
+    } catch (e) {
+      stopHeartbeat();
+      const message = e instanceof Error ? e.message : "Unknown error";
+      const dead = job.attempts >= config.maxAttempts;
+      const retryAt = dead ? undefined : new Date(Date.now() + backoffDelayMs(config, job.attempts));
+      if (!(await failTypeformJob({ pool, jobId: job.id, lockedBy: workerId, error: message, retryAt }))) {
+        logLockLost(job, workerId);
+        return;
+      }
+      console.error(
+        JSON.stringify({
+          msg: dead ? "typeform_job_dead" : "typeform_job_failed",
+          job_id: job.id,
+          event_id: job.event_id,
+          form_id: job.form_id,
+          token: job.response_token,
+          attempts: job.attempts,
+          retry_at: retryAt?.toISOString(),
+          error: message
+        })
+      );
+    }
+  }
+
+  async function tick(): Promise<void> {
+    const released = await releaseStaleTypeformJobs(pool, config.staleLockMs);
+    if (released) console.log(JSON.stringify({ msg: "typeform_jobs_released", count: released }));
+
+    while (!stopped) {
+      const job = await claimNextTypeformJob(pool, workerId);
+      if (!job) return;
+      await runJob(job);
+    }
+  }
+
+  function schedule(delayMs: number) {
+    if (stopped) return;
+    timer = setTimeout(() => {
+      running = tick()
+        .catch((e) => {
+          const message = e instanceof Error ? e.message : "Unknown error";
+          console.error(JSON.stringify({ msg: "typeform_worker_error", error: message }));
+        })
+        .finally(() => {
+          running = undefined;
+          schedule(config.pollIntervalMs);
+        });
+    }, delayMs);
+  }
+
+  schedule(0);
+  console.log(JSON.stringify({ msg: "typeform_worker_started", worker_id: workerId }));
+
+  return {
+    stop: async () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      await running;
+    }
+  };
+}
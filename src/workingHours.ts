@@ -0,0 +1,59 @@
+/** Office hours in a time zone; `days` are 0 (Sunday) to 6, `start`/`end` minutes after local midnight. */
+export type WorkingHours = {
+  timeZone: string;
+  days: number[];
+  start: number;
+  end: number;
+};
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const MINUTE_MS = 60_000;
+
+function localTime(date: Date, timeZone: string): { day: number; minute: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23"
+  }).formatToParts(date);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+  return { day: WEEKDAYS.indexOf(get("weekday")), minute: Number(get("hour")) * 60 + Number(get("minute")) };
+}
+
+/**
+ * Adds `minutes` of working time to `from`: time outside working hours does not count, so
+ * a lead that arrives at night with a 30 minute delay is due 30 minutes after opening.
+ */
+export function addWorkingMinutes(from: Date, minutes: number, hours: WorkingHours): Date {
+  let t = from.getTime();
+  let remaining = minutes;
+  // Days skipped in a row without reaching working time; a week and a day means no working days at all.
+  let skipped = 0;
+  for (;;) {
+    const { day, minute } = localTime(new Date(t), hours.timeZone);
+    if (hours.days.includes(day) && minute < hours.end) {
+      skipped = 0;
+      if (minute < hours.start) {
+        t += (hours.start - minute) * MINUTE_MS;
+        continue;
+      }
+      const available = hours.end - minute;
+      if (remaining <= available) return new Date(t + remaining * MINUTE_MS);
+      remaining -= available;
+      t += available * MINUTE_MS;
+      continue;
+    }
+    if (++skipped > 8) throw new Error(`No working time in a week after ${new Date(t).toISOString()}; check the working hours config.`);
+    t += (24 * 60 - minute) * MINUTE_MS;
+  }
+}
+
+/** Parses "09:00-18:00". */
+export function parseWorkingTimeRange(raw: string): { start: number; end: number } | undefined {
+  const m = /^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/.exec(raw.trim());
+  if (!m) return undefined;
+  const [start, end] = [Number(m[1]) * 60 + Number(m[2]), Number(m[3]) * 60 + Number(m[4])];
+  if (Number(m[2]) > 59 || Number(m[4]) > 59 || end > 24 * 60 || start >= end) return undefined;
+  return { start, end };
+}